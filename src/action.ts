@@ -4,14 +4,23 @@ export enum Action {
     OpenFile,
     OpenFileBeside,
     RenameFile,
+    CopyFile,
+    MoveFile,
     DeleteFile,
     OpenFolder,
     OpenFolderInNewWindow,
     Pin,
     OpenPin,
+    OpenRecent,
     FindFiles,
     FindFilesContent,
     CopyPath,
+    OpenMarked,
+    DeleteMarked,
+    PinMarked,
+    CopyMarkedPaths,
+    UnmarkAll,
+    Custom,
 }
 
 export function action(label: string, action: Action, arg?: any) {
@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+import { FileType, Uri } from "vscode";
+
+/**
+ * How to open the file browser through the [[FileBrowserApi]].
+ */
+export interface OpenOptions {
+    /**
+     * The folder to start in, or a file to start in its folder with the file selected. Defaults
+     * to the file in the active editor, or the first workspace folder.
+     */
+    uri?: Uri;
+    /**
+     * Save the active editor's contents to the chosen file, like `file-browser.write`.
+     */
+    write?: boolean;
+    /**
+     * Only show the files this returns true for. Folders are always shown, so they can be stepped
+     * into.
+     */
+    filter?: (uri: Uri) => boolean;
+    /**
+     * Text to start with in the input, the same as if the user had typed it.
+     */
+    query?: string;
+}
+
+/**
+ * How to open the file browser as a dialog to pick files or folders with.
+ */
+export interface PickOptions extends Omit<OpenOptions, "write"> {
+    /**
+     * Allow files to be picked. Defaults to true; when false, only folders are shown.
+     */
+    canSelectFiles?: boolean;
+    /**
+     * Allow folders to be picked, with a button which picks the current folder. Defaults to false.
+     */
+    canSelectFolders?: boolean;
+    /**
+     * Pick everything that's marked along with the accepted item.
+     */
+    canSelectMany?: boolean;
+}
+
+/**
+ * An action added to the file browser's actions menu by another extension.
+ */
+export interface CustomAction {
+    /**
+     * The label in the actions menu, which can use `$(icon)` syntax.
+     */
+    label: string;
+    /**
+     * Whether to offer the action for a file or folder. Defaults to offering it for everything.
+     */
+    when?: (uri: Uri, fileType: FileType) => boolean;
+    /**
+     * Run the action. The file browser is closed first.
+     */
+    run: (uri: Uri) => void | Thenable<void>;
+}
+
+/**
+ * What `activate()` returns, for other extensions to drive the file browser with.
+ */
+export interface FileBrowserApi {
+    /**
+     * The folder the file browser is showing, if it's open.
+     */
+    queryCurrentPath(): string | undefined;
+    /**
+     * The text typed into the file browser, if it's open.
+     */
+    queryCurrentQueryValue(): string | undefined;
+    /**
+     * Expand variables, `~` and `@` in a path the way the file browser does.
+     */
+    expandPath(value: string): string;
+    close(): void;
+    /**
+     * Open the file browser. Whatever the user picks is opened as usual.
+     */
+    open(options?: OpenOptions): void;
+    /**
+     * Open the file browser as a dialog, and resolve to what the user picked instead of opening
+     * it, or `undefined` if they closed it.
+     */
+    pick(options: PickOptions & { canSelectMany: true }): Promise<Uri[] | undefined>;
+    pick(options?: PickOptions): Promise<Uri | undefined>;
+    /**
+     * Add an action to the actions menu until the returned [[Disposable]] is disposed.
+     */
+    registerAction(action: CustomAction): vscode.Disposable;
+    /**
+     * Fires with the folder whenever the file browser shows a different one.
+     */
+    onDidNavigate: vscode.Event<Uri>;
+}
@@ -0,0 +1,39 @@
+/**
+ * A map which holds on to at most `capacity` entries, dropping the least recently used one when
+ * it's full. `onEvict` is called with every entry that's dropped or deleted.
+ */
+export class LruCache<V> {
+    private entries = new Map<string, V>();
+
+    constructor(private capacity: number, private onEvict: (key: string, value: V) => void = () => {}) {}
+
+    get(key: string): V | undefined {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            // Maps keep insertion order, so moving the entry to the end marks it most recently used.
+            this.entries.delete(key);
+            this.entries.set(key, value);
+        }
+        return value;
+    }
+
+    set(key: string, value: V) {
+        this.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.capacity) {
+            this.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    delete(key: string) {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            this.entries.delete(key);
+            this.onEvict(key, value);
+        }
+    }
+
+    clear() {
+        [...this.entries.keys()].forEach((key) => this.delete(key));
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from "vscode";
+import { FileType, FilePermission } from "vscode";
+import * as fs from "fs";
+
+import { Result } from "./rust";
+import { Path } from "./path";
+import { FileItem } from "./fileitem";
+
+/**
+ * The columns which can be shown next to file names, as named in the `file-browser.columns` setting.
+ */
+export enum Column {
+    Size = "size",
+    Modified = "modified",
+    Permissions = "permissions",
+}
+
+const maxConcurrentStats = 32;
+
+/**
+ * Fetch the [[FileStat]] of every item in `items`, which live in the folder `base`, storing it on
+ * the item. POSIX mode bits are only available for files on the local file system.
+ *
+ * Items which already have their stats aren't fetched again.
+ */
+export async function loadStats(base: Path, items: FileItem[]): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const item = items[next++];
+            if (item.stat !== undefined) {
+                continue;
+            }
+            const uri = base.append(item.name).uri;
+            item.stat = (await Result.try(vscode.workspace.fs.stat(uri))).unwrap();
+            if (uri.scheme === "file") {
+                item.mode = (await Result.try(fs.promises.lstat(uri.fsPath))).unwrap()?.mode;
+            }
+        }
+    };
+    const workers = [];
+    for (let i = 0; i < Math.min(maxConcurrentStats, items.length); i++) {
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+}
+
+export function formatSize(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`;
+}
+
+export function formatAge(mtime: number, now: number = Date.now()): string {
+    const units: [string, number][] = [
+        ["year", 365 * 24 * 60 * 60],
+        ["month", 30 * 24 * 60 * 60],
+        ["week", 7 * 24 * 60 * 60],
+        ["day", 24 * 60 * 60],
+        ["hour", 60 * 60],
+        ["minute", 60],
+    ];
+    const seconds = Math.max(0, Math.round((now - mtime) / 1000));
+    for (const [unit, length] of units) {
+        if (seconds >= length) {
+            const count = Math.floor(seconds / length);
+            return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+        }
+    }
+    return "just now";
+}
+
+/**
+ * Render mode bits the way `ls -l` does, eg. `drwxr-xr-x`.
+ */
+export function formatMode(mode: number, fileType: FileType): string {
+    let type = "-";
+    if ((fileType & FileType.SymbolicLink) === FileType.SymbolicLink) {
+        type = "l";
+    } else if ((fileType & FileType.Directory) === FileType.Directory) {
+        type = "d";
+    }
+    const flags = "rwxrwxrwx";
+    let bits = "";
+    for (let i = 0; i < flags.length; i++) {
+        bits += mode & (1 << (flags.length - 1 - i)) ? flags[i] : "-";
+    }
+    return type + bits;
+}
+
+/**
+ * Whether a file system reports a file as read-only. The permissions can be a bitmask.
+ */
+function isReadonly(stat: vscode.FileStat): boolean {
+    return ((stat.permissions ?? 0) & FilePermission.Readonly) !== 0;
+}
+
+/**
+ * Render the requested columns for an item whose stats have been loaded by [[loadStats]].
+ */
+export function describeColumns(item: FileItem, columns: Column[]): string {
+    const stat = item.stat;
+    if (stat === undefined) {
+        return "";
+    }
+    const fileType = item.fileType ?? stat.type;
+    return columns
+        .map((column) => {
+            switch (column) {
+                case Column.Size:
+                    return (fileType & FileType.Directory) === FileType.Directory
+                        ? ""
+                        : formatSize(stat.size);
+                case Column.Modified:
+                    return formatAge(stat.mtime);
+                case Column.Permissions:
+                    if (item.mode !== undefined) {
+                        return formatMode(item.mode, fileType);
+                    }
+                    return isReadonly(stat) ? "read-only" : "";
+                default:
+                    return "";
+            }
+        })
+        .filter((text) => text.length > 0)
+        .join("  ");
+}
@@ -2,16 +2,41 @@ import * as vscode from "vscode";
 import { Uri, QuickPickItem, FileType, QuickInputButton, ThemeIcon, ViewColumn } from "vscode";
 import * as OS from "os";
 import * as OSPath from "path";
-import * as fs from "fs";
 
-import { Result, None, Option, Some } from "./rust";
-import { Path, endsWithPathSeparator } from "./path";
-import { Rules } from "./filter";
-import { FileItem, fileRecordCompare } from "./fileitem";
+import { Result, Err, None, Option, Some } from "./rust";
+import { Path, endsWithPathSeparator, expandPath } from "./path";
+import { DirectoryCache, initializeDirectoryCache, listDirectory } from "./filter";
+import { FileItem, markItem } from "./fileitem";
 import { action, Action } from "./action";
 import { initializeSearchDirs, searchDirs } from "./grep";
-
-interface PinnedItem { fsPath: string, type: vscode.FileType }
+import { pickFolder, transfer } from "./transfer";
+import { Journal, clearStaleTrash, reportJournalResult, trashFolder } from "./journal";
+import { FolderPreviewProvider, Preview, previewScheme } from "./preview";
+import { fuzzyRank, positionsToRanges } from "./fuzzy";
+import { RecursiveListing } from "./recursive";
+import { CustomAction, FileBrowserApi, OpenOptions, PickOptions } from "./api";
+import { Column, describeColumns, loadStats } from "./columns";
+import {
+    SortOrder,
+    defaultSortOrder,
+    describeSortOrder,
+    formatSortOrder,
+    needsStats,
+    nextSortOrder,
+    parseSortOrder,
+    sortItems,
+} from "./sort";
+import { RecentItem, getRecent, pruneRecent, recentLabel, recordRecent, removeRecent } from "./recent";
+import {
+    Pin,
+    PinScope,
+    Pins,
+    groupPins,
+    pinDescription,
+    pinLabel,
+    promptEditPin,
+    promptPin,
+} from "./pins";
 
 export enum ConfigItem {
     RemoveIgnoredFiles = "removeIgnoredFiles",
@@ -19,6 +44,15 @@ export enum ConfigItem {
     HideIgnoreFiles = "hideIgnoredFiles",
     IgnoreFileTypes = "ignoreFileTypes",
     LabelIgnoredFiles = "labelIgnoredFiles",
+    Preview = "preview",
+    Columns = "columns",
+    SortOrder = "sortOrder",
+    ShowRecent = "showRecent",
+    RecentLimit = "recentLimit",
+    GrepMaxResults = "grep.maxResults",
+    GrepContextLines = "grep.contextLines",
+    RipgrepPath = "ripgrepPath",
+    InlinePathCompletion = "inlinePathCompletion",
 }
 
 export function config<A>(item: ConfigItem): A | undefined {
@@ -26,6 +60,15 @@ export function config<A>(item: ConfigItem): A | undefined {
 }
 
 let active: Option<FileBrowser> = None;
+let journal: Journal;
+let folderPreviewProvider: FolderPreviewProvider;
+let pins: Pins;
+let directoryCache: DirectoryCache;
+let customActions: CustomAction[] = [];
+let navigationEmitter: vscode.EventEmitter<Uri>;
+
+const shownRecentItems = 10;
+const refreshDelay = 100;
 
 function setContext(state: boolean) {
     vscode.commands.executeCommand("setContext", "inFileBrowser", state);
@@ -48,21 +91,68 @@ function getSelectedText(): string | undefined {
     return vscode.window.activeTextEditor.document.getText(vscode.window.activeTextEditor.selection);
 }
 
+/**
+ * What the user is picking, when the file browser is used as a dialog through the API.
+ */
+interface PickRequest {
+    files: boolean;
+    folders: boolean;
+    many: boolean;
+    resolve: (uris: Uri[] | undefined) => void;
+    reject: (error: Error) => void;
+}
+
 interface AutoCompletion {
     index: number;
     items: FileItem[];
 }
 
+/**
+ * A path being typed in place: the folder part typed so far, the folder it leads to, what's in
+ * that folder, and which of those are hidden unless they match.
+ */
+interface InlinePath {
+    prefix: string;
+    base: Path;
+    items: FileItem[];
+    hiddenItems: Set<FileItem>;
+}
+
+/**
+ * Find the folder a typed path like `src/components/` or `~/notes/` leads to, starting from `from`
+ * unless the path says otherwise.
+ */
+function resolveTypedFolder(from: Path, prefix: string): Path {
+    const folder = prefix.replace(/\/+$/, "");
+    if (folder === "") {
+        return Path.fromFilePath("/");
+    }
+    if (/^([~@$]|[a-zA-Z]:)/.test(folder)) {
+        return Path.fromFilePath(folder);
+    }
+    return from.append(expandPath(folder));
+}
+
 class FileBrowser {
     current: vscode.QuickPick<FileItem>;
     path: Path;
     file: Option<string>;
     items: FileItem[] = [];
+    hiddenItems: Set<FileItem> = new Set();
+    recentItems: FileItem[] = [];
     pathHistory: { [path: string]: Option<string> };
     inActions: boolean = false;
     keepAlive: boolean = false;
     autoCompletion?: AutoCompletion;
     isAutoCompleteChange = false;
+    marked: Map<string, Path> = new Map();
+    preview: Option<Preview> = None;
+    recursive: boolean = false;
+    crawler: Option<RecursiveListing> = None;
+    inline: Option<InlinePath> = None;
+    watcher: vscode.Disposable;
+    refreshTimer?: NodeJS.Timeout;
+    shownFolder?: string;
 
     actionsButton: QuickInputButton = {
         iconPath: new ThemeIcon("ellipsis"),
@@ -76,9 +166,28 @@ class FileBrowser {
         iconPath: new ThemeIcon("arrow-right"),
         tooltip: "Step into folder",
     };
+    previewButton: QuickInputButton = {
+        iconPath: new ThemeIcon("eye-closed"),
+        tooltip: "Toggle preview",
+    };
+    recursiveButton: QuickInputButton = {
+        iconPath: new ThemeIcon("list-flat"),
+        tooltip: "Find files in all subfolders",
+    };
+    revealButton: QuickInputButton = {
+        iconPath: new ThemeIcon("go-to-file"),
+        tooltip: "Show in its folder",
+    };
+    selectFolderButton: QuickInputButton = {
+        iconPath: new ThemeIcon("check"),
+        tooltip: "Select this folder",
+    };
 
     static defaultConstructorOpts: {
         write?: boolean,
+        filter?: (uri: Uri) => boolean,
+        query?: string,
+        pick?: PickRequest,
     } = {
         write: false,
     };
@@ -91,7 +200,7 @@ class FileBrowser {
         this.pathHistory = { [this.path.id]: this.file };
         this.current = vscode.window.createQuickPick();
         this.current.ignoreFocusOut = true; // add this
-        this.current.buttons = [this.actionsButton, this.stepOutButton, this.stepInButton];
+        this.updateButtons();
         this.current.placeholder = "Preparing the file list...";
         this.current.onDidHide(() => {
             if (!this.keepAlive) {
@@ -102,6 +211,11 @@ class FileBrowser {
         this.current.onDidChangeValue(this.onDidChangeValue.bind(this));
         this.current.onDidTriggerButton(this.onDidTriggerButton.bind(this));
         this.current.onDidTriggerItemButton(this.onDidTriggerItemButton.bind(this));
+        this.current.onDidChangeActive(this.onDidChangeActive.bind(this));
+        this.watcher = directoryCache.onDidChange(this.onDidChangeFolder.bind(this));
+        if (config(ConfigItem.Preview)) {
+            this.togglePreview();
+        }
         this.update().then(() => {
             if (this.opts.write) {
                 this.current.placeholder = "Type a file name here to create a new file or overwrite existing one";
@@ -109,12 +223,38 @@ class FileBrowser {
                 this.current.placeholder = "Type a file name here to search or open a new file";
             }
             this.current.busy = false;
+            if (this.opts.query) {
+                this.current.value = this.opts.query;
+            }
+        }, (error) => {
+            // Whoever is waiting for a pick needs to hear about it, or they'd wait forever.
+            if (this.opts.pick === undefined) {
+                throw error;
+            }
+            this.fail(error);
         });
     }
 
+    updateButtons() {
+        this.current.buttons = [
+            this.actionsButton,
+            this.stepOutButton,
+            this.stepInButton,
+            this.previewButton,
+            this.recursiveButton,
+            ...(this.opts.pick?.folders ? [this.selectFolderButton] : []),
+        ];
+    }
+
     dispose() {
         setContext(false);
         setContext2(undefined);
+        this.crawler.ifSome((crawler) => crawler.cancel());
+        this.preview.ifSome((preview) => preview.close());
+        this.watcher.dispose();
+        clearTimeout(this.refreshTimer);
+        // Does nothing if something was picked already.
+        this.opts.pick?.resolve(undefined);
         this.current.dispose();
         active = None;
     }
@@ -132,35 +272,291 @@ class FileBrowser {
     }
 
     async togglePin(path: Path) {
-        let pinned: PinnedItem[] = this.context.globalState.get('file-browser.pinned', []);
-        let found = pinned.findIndex(p => p.fsPath === path.uri.fsPath);
-        if (found === -1) {
-            let isDir = await path.isDir();
-            pinned.push({ fsPath: path.uri.fsPath, type: isDir ? vscode.FileType.Directory : vscode.FileType.File });
+        await pins.find(path).match(
+            (pin) => pins.remove(pin),
+            async () => {
+                this.keepAlive = true;
+                this.hide();
+                const options = await promptPin(pins);
+                await options.match(
+                    ({ scope, group, alias }) => pins.add(path, scope, { group, alias }),
+                    async () => {}
+                );
+                this.keepAlive = false;
+            }
+        );
+    }
+
+    pinItem(pin: Pin): FileItem {
+        const item: FileItem = action(pinLabel(pin), Action.OpenPin, pin);
+        item.description = pinDescription(pin);
+        item.buttons = [
+            { iconPath: new ThemeIcon("arrow-up"), tooltip: "Move up" },
+            { iconPath: new ThemeIcon("arrow-down"), tooltip: "Move down" },
+            { iconPath: new ThemeIcon("edit"), tooltip: "Edit alias and index" },
+            { iconPath: new ThemeIcon("close"), tooltip: "Unpin" },
+        ];
+        return item;
+    }
+
+    getPinned(): FileItem[] {
+        const items: FileItem[] = [];
+        for (const [group, groupPinned] of groupPins(pins.all())) {
+            items.push({
+                label: group ?? "Pinned",
+                name: "",
+                alwaysShow: true,
+                kind: vscode.QuickPickItemKind.Separator,
+            });
+            items.push(...groupPinned.map((pin) => this.pinItem(pin)));
+        }
+        return items;
+    }
+
+    pinActionLabel(kind: string): string {
+        return pins.find(this.path).isSome() ? `$(pinned) Unpin this ${kind}` : `$(pin) Pin this ${kind}`;
+    }
+
+    markedPaths(): Path[] {
+        return Array.from(this.marked.values());
+    }
+
+    markedActions(): FileItem[] {
+        const count = this.marked.size;
+        if (count === 0) {
+            return [];
+        }
+        const items = count === 1 ? "item" : "items";
+        return [
+            action(`$(files) Open ${count} marked ${items}`, Action.OpenMarked),
+            action(`$(trash) Delete ${count} marked ${items}`, Action.DeleteMarked),
+            action(`$(pin) Pin ${count} marked ${items}`, Action.PinMarked),
+            action(`$(clippy) Copy ${count} marked ${items} paths`, Action.CopyMarkedPaths),
+            action("$(clear-all) Unmark all", Action.UnmarkAll),
+        ];
+    }
+
+    /**
+     * Actions registered through the API which apply to the file or folder in the actions menu.
+     */
+    customActionItems(fileType: FileType): FileItem[] {
+        return customActions
+            .filter((custom) => custom.when?.(this.path.uri, fileType) ?? true)
+            .map((custom) => action(custom.label, Action.Custom, custom));
+    }
+
+    title(): string {
+        let title = this.path.fsPath;
+        if (this.recursive && !this.inActions) {
+            title += " (all subfolders)";
+        } else if (!this.inActions) {
+            const order = this.sortOrder();
+            if (formatSortOrder(order) !== formatSortOrder(defaultSortOrder)) {
+                title += ` (by ${describeSortOrder(order)})`;
+            }
+        }
+        if (this.marked.size > 0) {
+            title += ` (${this.marked.size} marked)`;
+        }
+        return title;
+    }
+
+    /**
+     * Get the sort order for the current folder: the one last chosen for it, or the default from
+     * the settings.
+     */
+    sortOrder(): SortOrder {
+        const orders: { [path: string]: string } = this.context.workspaceState.get("file-browser.sortOrders", {});
+        const order = orders[this.path.id] ?? config<string>(ConfigItem.SortOrder);
+        return order === undefined ? defaultSortOrder : parseSortOrder(order);
+    }
+
+    /**
+     * Switch the current folder to the next sort order, and remember it for the folder.
+     */
+    async cycleSortOrder() {
+        if (this.inActions || this.recursive) {
+            return;
+        }
+        this.commitInline();
+        const order = formatSortOrder(nextSortOrder(this.sortOrder()));
+        const orders: { [path: string]: string } = this.context.workspaceState.get("file-browser.sortOrders", {});
+        if (order === (config<string>(ConfigItem.SortOrder) ?? formatSortOrder(defaultSortOrder))) {
+            delete orders[this.path.id];
         } else {
-            pinned.splice(found, 1);
+            orders[this.path.id] = order;
         }
-        return this.context.globalState.update('file-browser.pinned', pinned);
+        await this.context.workspaceState.update("file-browser.sortOrders", orders);
+        this.file = this.activeItem().map((item) => item.name);
+        await this.update();
     }
 
-    getPinned(): FileItem[] {
-        let pinned: PinnedItem[] = this.context.globalState.get('file-browser.pinned', []);
-        // let pinned = pinnedStrings.map(p => vscode.Uri.parse(p));
-        return pinned.map(p => {
-            let name;
-            if (p.type === vscode.FileType.Directory) {
-                name = `$(folder-opened) ${p.fsPath}`;
-            } else {
-                name = `$(file) ${p.fsPath}`;
+    /**
+     * Get a freshly listed set of items from `base` ready for display: apply marks, and take over
+     * the hiding of dotfiles and ignored files from the quick pick, noting them in `hiddenItems`.
+     */
+    prepareItems(
+        items: FileItem[],
+        base: Path = this.path,
+        hiddenItems: Set<FileItem> = this.hiddenItems
+    ): FileItem[] {
+        items = this.filterItems(base, items);
+        items.forEach((item) => markItem(item, this.marked.has(base.append(item.name).id)));
+        // We do our own filtering in `rankItems`, so keep the quick pick from hiding anything.
+        items.filter((item) => !item.alwaysShow).forEach((item) => hiddenItems.add(item));
+        items.forEach((item) => (item.alwaysShow = true));
+        return items;
+    }
+
+    /**
+     * Leave out the files the filter passed in through the API doesn't want. Folders stay, so they
+     * can still be stepped into.
+     */
+    filterItems(base: Path, items: FileItem[]): FileItem[] {
+        const filter = this.opts.filter;
+        if (filter === undefined) {
+            return items;
+        }
+        try {
+            return items.filter(
+                (item) => ((item.fileType ?? 0) & FileType.Directory) !== 0 || filter(base.append(item.name).uri)
+            );
+        } catch (error) {
+            this.fail(error as Error);
+            return items;
+        }
+    }
+
+    /**
+     * Give up after something failed, like a filter passed in through the API: a pick fails with
+     * the error, and otherwise the error is shown and the browser carries on.
+     */
+    fail(error: Error) {
+        const pick = this.opts.pick;
+        if (pick === undefined) {
+            vscode.window.showErrorMessage(`File browser failed: ${error.message}`);
+            return;
+        }
+        pick.reject(error);
+        this.dispose();
+    }
+
+    /**
+     * Start listing everything below the current folder, adding items to the list as they're found.
+     */
+    startCrawler() {
+        this.items = [];
+        this.hiddenItems = new Set();
+        this.recentItems = [];
+        this.current.items = [];
+        const crawler = new RecursiveListing(
+            this.path.clone(),
+            (items) => {
+                this.items.push(...this.prepareItems(items));
+                items.forEach((item) => (item.buttons = [this.revealButton]));
+                this.refreshItems(this.rankItems(this.current.value));
+                this.loadColumns(items);
+            },
+            () => {
+                this.current.busy = false;
             }
-            let a: FileItem = action(name, Action.OpenPin, p);
-            a.buttons = [
-                {
-                    iconPath: new vscode.ThemeIcon("close")
-                }
-            ];
-            return a;
+        );
+        this.crawler = Some(crawler);
+        crawler.run();
+    }
+
+    /**
+     * Replace the displayed items without losing track of the active one.
+     */
+    refreshItems(items: readonly FileItem[]) {
+        const active = this.current.activeItems[0];
+        this.current.items = items;
+        if (active !== undefined && items.includes(active)) {
+            this.current.activeItems = [active];
+        }
+    }
+
+    /**
+     * Fetch the stats for the columns in `file-browser.columns` in the background, and show them
+     * in the item descriptions as they arrive.
+     */
+    async loadColumns(items: FileItem[]) {
+        const columns: Column[] = config(ConfigItem.Columns) ?? [];
+        if (columns.length === 0 || items.length === 0) {
+            return;
+        }
+        await loadStats(this.path.clone(), items);
+        if (this.inActions || !this.items.includes(items[0])) {
+            // We've moved on since.
+            return;
+        }
+        items.forEach((item) => {
+            item.description = [item.description, describeColumns(item, columns)]
+                .filter((text) => text)
+                .join("  ");
         });
+        this.refreshItems([...this.current.items]);
+    }
+
+    toggleRecursive() {
+        if (this.inActions) {
+            return;
+        }
+        this.setRecursive(!this.recursive);
+        this.update();
+    }
+
+    setRecursive(recursive: boolean) {
+        this.recursive = recursive;
+        this.recursiveButton = {
+            iconPath: new ThemeIcon(recursive ? "list-tree" : "list-flat"),
+            tooltip: this.recursiveButton.tooltip,
+        };
+        this.updateButtons();
+    }
+
+    /**
+     * Something changed in `folder`. If it's the current folder, or an ignore file above it, list
+     * it again once things have settled down.
+     */
+    onDidChangeFolder(folder: Uri) {
+        const relative = this.path.relativeTo(folder).unwrap();
+        if (relative === undefined || relative.startsWith("..") || OSPath.isAbsolute(relative)) {
+            return;
+        }
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.refresh(), refreshDelay);
+    }
+
+    /**
+     * List the current folder again, keeping what's been typed and the active item.
+     */
+    async refresh() {
+        if (this.inActions || this.recursive || this.inline.isSome()) {
+            return;
+        }
+        const path = this.path.clone();
+        const listing = (await Result.try(listDirectory(path))).unwrap();
+        if (listing === undefined || !this.path.equals(path) || this.inActions || this.recursive || this.inline.isSome()) {
+            return;
+        }
+        const order = this.sortOrder();
+        if (needsStats(order)) {
+            await loadStats(path, listing);
+        }
+        const previous = new Set(this.items);
+        const active = this.current.activeItems[0];
+        // Keep the items which aren't part of the listing, like the one for creating a new file.
+        const extra = this.current.items.filter((item) => !previous.has(item) && !this.recentItems.includes(item));
+        this.hiddenItems = new Set();
+        this.items = this.prepareItems(sortItems(listing, order));
+        this.current.items = [...extra, ...this.rankItems(this.current.value)];
+        const stillActive =
+            active === undefined || this.current.items.includes(active)
+                ? active
+                : this.items.find((item) => item.name === active.name);
+        this.current.activeItems = stillActive !== undefined ? [stillActive] : [];
+        this.loadColumns(this.items);
     }
 
     async update() {
@@ -169,8 +565,10 @@ class FileBrowser {
         // this.current.enabled = false;
         this.current.show();
         this.current.busy = true;
-        this.current.title = this.path.fsPath;
+        this.current.title = this.title();
         this.current.value = "";
+        this.crawler.ifSome((crawler) => crawler.cancel());
+        this.crawler = None;
 
         const stat = (await Result.try(vscode.workspace.fs.stat(this.path.uri))).unwrap();
         if (stat && this.inActions && (stat.type & FileType.File) === FileType.File) {
@@ -178,11 +576,15 @@ class FileBrowser {
                 action("$(file) Open this file", Action.OpenFile),
                 action("$(split-horizontal) Open this file to the side", Action.OpenFileBeside),
                 action("$(edit) Rename this file", Action.RenameFile),
+                action("$(copy) Copy this file to another folder", Action.CopyFile),
+                action("$(move) Move this file to another folder", Action.MoveFile),
                 action("$(trash) Delete this file", Action.DeleteFile),
                 action("$(search) Find files in containing folder", Action.FindFiles),
                 action("$(symbol-keyword) Find files in containing folder by content", Action.FindFilesContent),
-                action("$(pin) Pin this file", Action.Pin),
+                action(this.pinActionLabel("file"), Action.Pin),
                 action("$(clippy) Copy this file path", Action.CopyPath),
+                ...this.customActionItems(stat.type),
+                ...this.markedActions(),
                 ...this.getPinned(),
             ];
             this.current.items = this.items;
@@ -198,28 +600,41 @@ class FileBrowser {
                     Action.OpenFolderInNewWindow
                 ),
                 action("$(edit) Rename this folder", Action.RenameFile),
+                action("$(copy) Copy this folder to another folder", Action.CopyFile),
+                action("$(move) Move this folder to another folder", Action.MoveFile),
                 action("$(trash) Delete this folder", Action.DeleteFile),
                 action("$(search) Find files", Action.FindFiles),
                 action("$(symbol-keyword) Find files by content", Action.FindFilesContent),
-                action("$(pin) Pin this folder", Action.Pin),
+                action(this.pinActionLabel("folder"), Action.Pin),
                 action("$(clippy) Copy this file path", Action.CopyPath),
+                ...this.customActionItems(stat.type),
+                ...this.markedActions(),
                 ...this.getPinned(),
             ];
             this.current.items = this.items;
         } else if (stat && (stat.type & FileType.Directory) === FileType.Directory) {
-            const records = await vscode.workspace.fs.readDirectory(this.path.uri);
-            records.sort(fileRecordCompare);
-            let items = records.map((entry) => new FileItem(entry));
-            if (config(ConfigItem.HideIgnoreFiles)) {
-                const rules = await Rules.forPath(this.path);
-                items = rules.filter(this.path, items);
-            }
-            if (config(ConfigItem.RemoveIgnoredFiles)) {
-                items = items.filter((item) => item.alwaysShow);
-            }
-            this.items = items;
-            this.current.items = items;
-            this.current.activeItems = items.filter((item) => this.file.contains(item.name));
+            if (this.recursive) {
+                this.startCrawler();
+            } else {
+                this.hiddenItems = new Set();
+                const order = this.sortOrder();
+                const listing = await listDirectory(this.path);
+                if (needsStats(order)) {
+                    await loadStats(this.path.clone(), listing);
+                }
+                const items = this.prepareItems(sortItems(listing, order));
+                this.items = items;
+                this.recentItems = [];
+                this.current.items = this.rankItems("");
+                this.current.activeItems = items.filter((item) => this.file.contains(item.name));
+                this.loadColumns(items);
+                this.loadRecent();
+            }
+            if (this.shownFolder !== this.path.id) {
+                this.shownFolder = this.path.id;
+                recordRecent(this.context, this.path, FileType.Directory);
+                navigationEmitter.fire(this.path.uri);
+            }
         } else {
             this.items = [action("$(new-folder) Create this folder", Action.NewFolder)];
             this.current.items = this.items;
@@ -231,6 +646,70 @@ class FileBrowser {
         }
     }
 
+    /**
+     * Load the section of recently used files and folders shown below the folder listing.
+     */
+    async loadRecent() {
+        if (!config(ConfigItem.ShowRecent)) {
+            return;
+        }
+        const items = this.items;
+        const entries = (await getRecent(this.context))
+            .filter((entry) => entry.fsPath !== this.path.fsPath)
+            .slice(0, shownRecentItems);
+        if (this.items !== items || this.inActions || this.recursive) {
+            // We've moved on since.
+            return;
+        }
+        this.recentItems =
+            entries.length === 0
+                ? []
+                : [
+                      { label: "Recent", name: "", alwaysShow: true, kind: vscode.QuickPickItemKind.Separator },
+                      ...entries.map((entry) => action(recentLabel(entry), Action.OpenRecent, entry)),
+                  ];
+        if (this.current.value === "") {
+            this.refreshItems(this.rankItems(""));
+        }
+        // Checking is left until after the list is shown, as it can be slow. Dropping missing
+        // entries makes room for others, so those are checked in turn.
+        if ((await pruneRecent(this.context, entries)).length !== entries.length) {
+            await this.loadRecent();
+        }
+    }
+
+    /**
+     * Order the items in the current folder by how well they fuzzy match `value`, best first.
+     *
+     * Items which don't match follow in their usual order, except hidden dotfiles and ignored
+     * files, which only show up when they match. With no `value`, everything is shown, followed
+     * by the recent section.
+     *
+     * The quick pick still moves the items whose label contains `value` to the top, in its own
+     * order and with its own highlights; stable VS Code has no way to turn that off. Tab
+     * completion makes up for it in [[tabCompletion]].
+     */
+    rankItems(value: string): FileItem[] {
+        this.items.forEach((item) => (item.highlights = undefined));
+        if (value === "") {
+            return [...this.items, ...this.recentItems];
+        }
+        const ranked = fuzzyRank(value, this.items, (item) => item.name);
+        ranked.forEach(({ item, match }) => {
+            // The label only shows the last segment of the name, so only highlight matches in that.
+            const nameStart = item.name.lastIndexOf("/") + 1;
+            const positions = match.positions.filter((position) => position >= nameStart);
+            item.highlights = {
+                label: positionsToRanges(positions, item.label.length - item.name.length),
+            };
+        });
+        const matched = new Set(ranked.map(({ item }) => item));
+        return [
+            ...matched,
+            ...this.items.filter((item) => !matched.has(item) && !this.hiddenItems.has(item)),
+        ];
+    }
+
     onDidChangeValue(value: string) {
         if (this.inActions) {
             return;
@@ -242,8 +721,19 @@ class FileBrowser {
             this.isAutoCompleteChange = false;
         }
 
+        const typingInline = !this.recursive && config<boolean>(ConfigItem.InlinePathCompletion) && value.includes("/");
+        if (!typingInline) {
+            this.inline = None;
+        }
+
         const existingItem = this.items.find((item) => item.name === value);
-        if (value === "") {
+        const pinShortcut = /^@([^/\\]+)$/.exec(value);
+        const pinned = pinShortcut ? pins.lookup(pinShortcut[1]) : None;
+        if (pinned.isSome()) {
+            const item = this.pinItem(pinned.unwrap()!);
+            this.current.items = [item, ...this.rankItems(value)];
+            this.current.activeItems = [item];
+        } else if (value === "") {
             let currentFileName = vscode.window.activeTextEditor?.document.fileName;
             if (this.opts.write && currentFileName) {
                 let currentFileNameBase = OSPath.basename(currentFileName);
@@ -254,14 +744,19 @@ class FileBrowser {
                     alwaysShow: true,
                     action: Action.OpenFile,
                 };
-                this.current.items = [newItem, ...this.items];
+                this.current.items = [newItem, ...this.rankItems(value)];
                 this.current.activeItems = [newItem];
             } else {
-                this.current.items = this.items;
+                this.current.items = this.rankItems(value);
                 this.current.activeItems = [];
             }
+        } else if (this.recursive) {
+            // Paths are matched as a whole here, so separators don't navigate.
+            this.current.items = this.rankItems(value);
+        } else if (typingInline) {
+            this.updateInline(value);
         } else if (existingItem !== undefined) {
-            this.current.items = this.items;
+            this.current.items = this.rankItems(value);
             this.current.activeItems = [existingItem];
         } else {
             // Need to support
@@ -285,13 +780,13 @@ class FileBrowser {
                 let driveRootRelativePath = value.length > 1 && value.slice(1).startsWith(':');
                 let homeRelativePath = value.startsWith('~');
                 let workspaceRelativePath = value.startsWith('@');
-                let envRelativePath = value.startsWith('$env:');
+                let envRelativePath = value.startsWith('$');
                 if (rootRelativePath || driveRootRelativePath || homeRelativePath || workspaceRelativePath || envRelativePath) {
                     this.stepIntoFolder(Path.fromFilePath(value.slice(0, lastPathSeparator))).then(() => {
                         this.current.value = value.slice(lastPathSeparator + 1);
                     });
                 } else {
-                    this.stepIntoFolder(this.path.append(value.slice(0, lastPathSeparator))).then(() => {
+                    this.stepIntoFolder(this.path.append(expandPath(value.slice(0, lastPathSeparator)))).then(() => {
                         this.current.value = value.slice(lastPathSeparator + 1);
                     });
                 }
@@ -300,7 +795,7 @@ class FileBrowser {
 
             endsWithPathSeparator(value).match(
                 (path) => {
-                    if (path === "~" || path === '@') {
+                    if (/^[~@$]/.test(path)) {
                         this.stepIntoFolder(Path.fromFilePath(path));
                     } else if (path === "..") {
                         this.stepOut();
@@ -322,13 +817,82 @@ class FileBrowser {
                         newItem.action = Action.OpenFile;
                         newItem.description = "Create new file";
                     }
-                    this.current.items = [newItem, ...this.items];
+                    this.current.items = [newItem, ...this.rankItems(value)];
                     this.current.activeItems = [newItem];
                 }
             );
         }
     }
 
+    /**
+     * Show completions for the last segment of a path typed in place, from the folder the rest of
+     * the path leads to. Nothing navigates until the path is accepted or stepped into.
+     */
+    async updateInline(value: string) {
+        const prefix = value.slice(0, value.lastIndexOf("/") + 1);
+        const segment = value.slice(prefix.length);
+        const base = resolveTypedFolder(this.path, prefix);
+        let inline = this.inline.unwrap();
+        if (inline === undefined || !inline.base.equals(base)) {
+            const hiddenItems = new Set<FileItem>();
+            const listing = (await Result.try(listDirectory(base))).getOr([]);
+            if (this.current.value !== value) {
+                return;
+            }
+            inline = { prefix, base, items: this.prepareItems(listing, base, hiddenItems), hiddenItems };
+        }
+        inline.prefix = prefix;
+        this.inline = Some(inline);
+
+        // Ranked the same way as the folder listing in `rankItems`.
+        let matches = inline.items;
+        if (segment !== "") {
+            const ranked = fuzzyRank(segment, inline.items, (item) => item.name).map(({ item }) => item);
+            const matched = new Set(ranked);
+            const hidden = inline.hiddenItems;
+            matches = [...ranked, ...inline.items.filter((item) => !matched.has(item) && !hidden.has(item))];
+        }
+        const shown: FileItem[] = matches.map((item) => ({
+            ...item,
+            label: item.label.slice(0, item.label.length - item.name.length) + prefix + item.name,
+            highlights: undefined,
+        }));
+        const exact = shown.find((item) => item.name === segment);
+        if (segment !== "" && exact === undefined) {
+            const newItem: FileItem = {
+                label: `$(new-file) ${value}`,
+                name: segment,
+                description: this.opts.write ? "Create new file" : "Open as new file",
+                alwaysShow: true,
+                action: this.opts.write ? Action.OpenFile : Action.NewFile,
+            };
+            this.current.items = [newItem, ...shown];
+            this.current.activeItems = [newItem];
+        } else {
+            this.current.items = shown;
+            this.current.activeItems = shown.length > 0 ? [exact ?? shown[0]] : [];
+        }
+    }
+
+    /**
+     * Navigate to the folder a path typed in place leads to, so the active item can be acted on
+     * from there.
+     */
+    commitInline() {
+        this.inline.ifSome((inline) => {
+            this.inline = None;
+            this.path = inline.base.clone();
+            setContext2(this.path);
+        });
+    }
+
+    /**
+     * The folder the shown items are in.
+     */
+    itemsBase(): Path {
+        return this.inline.map((inline) => inline.base).unwrapOr(this.path);
+    }
+
     onDidTriggerButton(button: QuickInputButton) {
         if (button === this.stepInButton) {
             this.stepIn();
@@ -336,25 +900,137 @@ class FileBrowser {
             this.stepOut();
         } else if (button === this.actionsButton) {
             this.actions();
+        } else if (button === this.previewButton) {
+            this.togglePreview();
+        } else if (button === this.recursiveButton) {
+            this.toggleRecursive();
+        } else if (button === this.selectFolderButton) {
+            this.select(this.path.uri);
         }
     }
 
+    onDidChangeActive(items: readonly FileItem[]) {
+        this.preview.ifSome((preview) => {
+            const item = items[0];
+            if (this.inActions || item === undefined || item.action !== undefined || item.fileType === undefined) {
+                return;
+            }
+            preview.show(this.itemsBase().append(item.name));
+        });
+    }
+
+    togglePreview() {
+        this.preview = this.preview.match(
+            (preview) => {
+                preview.close();
+                return None;
+            },
+            () => Some(new Preview(folderPreviewProvider))
+        );
+        this.previewButton = {
+            iconPath: new ThemeIcon(this.preview.isSome() ? "eye" : "eye-closed"),
+            tooltip: this.previewButton.tooltip,
+        };
+        this.updateButtons();
+        this.onDidChangeActive(this.current.activeItems);
+    }
+
     onDidTriggerItemButton(e: vscode.QuickPickItemButtonEvent<FileItem>) {
-        if ((e.button.iconPath as vscode.ThemeIcon)?.id !== 'close') {
+        if (e.button === this.revealButton) {
+            this.reveal(e.item);
             return;
         }
-        let item = (e.item as any).arg as PinnedItem;
-        let path = Path.fromFilePath(item.fsPath);
-        this.togglePin(path).then(() => this.update());
+        if (e.item.action !== Action.OpenPin) {
+            return;
+        }
+        const pin = (e.item as any).arg as Pin;
+        switch ((e.button.iconPath as vscode.ThemeIcon)?.id) {
+            case "arrow-up":
+                pins.move(pin, -1).then(() => this.update());
+                break;
+            case "arrow-down":
+                pins.move(pin, 1).then(() => this.update());
+                break;
+            case "edit":
+                this.keepAlive = true;
+                this.hide();
+                promptEditPin(pins, pin).then(() => {
+                    this.show();
+                    this.keepAlive = false;
+                    this.update();
+                });
+                break;
+            case "close":
+                pins.remove(pin).then(() => this.update());
+                break;
+        }
     }
 
     activeItem(): Option<FileItem> {
         return new Option(this.current.activeItems[0]);
     }
 
+    /**
+     * Toggle the mark on the active item and move on to the next one.
+     *
+     * Marks are kept by path, so they survive navigating to other folders.
+     */
+    toggleMark() {
+        if (this.inActions) {
+            return;
+        }
+        this.activeItem().ifSome((item) => {
+            if (item.action !== undefined || item.fileType === undefined) {
+                return;
+            }
+            const path = this.itemsBase().append(item.name);
+            if (this.marked.has(path.id)) {
+                this.marked.delete(path.id);
+            } else {
+                this.marked.set(path.id, path);
+            }
+            markItem(item, this.marked.has(path.id));
+            // Paths typed in place show copies of the listed items, which are shown again on the
+            // next keystroke.
+            this.inline.ifSome((inline) =>
+                inline.items
+                    .filter((listed) => listed.name === item.name)
+                    .forEach((listed) => markItem(listed, this.marked.has(path.id)))
+            );
+            const items = this.current.items;
+            const next = items[Math.min(items.indexOf(item) + 1, items.length - 1)];
+            this.current.items = [...items];
+            this.current.activeItems = [next];
+            this.current.title = this.title();
+        });
+    }
+
+    unmarkAll() {
+        this.marked.clear();
+        this.items.forEach((item) => markItem(item, false));
+        this.inline.ifSome((inline) => inline.items.forEach((item) => markItem(item, false)));
+        if (!this.inActions) {
+            this.current.items = [...this.current.items];
+        }
+        this.current.title = this.title();
+    }
+
+    /**
+     * Leave the recursive listing, and show `item` in its own folder.
+     */
+    async reveal(item: FileItem) {
+        const path = this.path.append(item.name);
+        this.setRecursive(false);
+        this.file = path.pop();
+        this.path = path;
+        setContext2(this.path);
+        await this.update();
+    }
+
     async stepIntoFolder(folder: Path) {
         // if (!this.path.equals(folder)) {
             this.path = folder;
+            this.setRecursive(false);
             setContext2(this.path);
             this.file = this.pathHistory[this.path.id] || None;
             await this.update();
@@ -362,6 +1038,7 @@ class FileBrowser {
     }
 
     async stepIn() {
+        this.commitInline();
         this.activeItem().ifSome(async (item) => {
             if (item.action !== undefined) {
                 this.runAction(item);
@@ -380,6 +1057,8 @@ class FileBrowser {
 
     async stepOut() {
         this.inActions = false;
+        this.setRecursive(false);
+        this.commitInline();
         if (!this.path.atTop()) {
             this.pathHistory[this.path.id] = this.activeItem().map((item) => item.name);
             this.file = this.path.pop();
@@ -391,6 +1070,7 @@ class FileBrowser {
         if (this.inActions) {
             return;
         }
+        this.commitInline();
         await this.activeItem().match(
             async (item) => {
                 this.inActions = true;
@@ -411,25 +1091,30 @@ class FileBrowser {
             return;
         }
 
+        // When typing a path in place, only its last segment is completed.
+        const inline = this.inline.unwrap();
+        const prefix = inline?.prefix ?? "";
         if (this.autoCompletion) {
             const length = this.autoCompletion.items.length;
             const step = tabNext ? 1 : -1;
             this.autoCompletion.index = (this.autoCompletion.index + length + step) % length;
         } else {
-            const items = this.items.filter((i) =>
-                i.name.toLowerCase().indexOf(this.current.value.toLowerCase()) !== -1
-            ).sort((a, b) => {
-                const indexA = a.name.toLowerCase().indexOf(this.current.value.toLowerCase());
-                const indexB = b.name.toLowerCase().indexOf(this.current.value.toLowerCase());
-
-                // Compare the indices of the term
-                if (indexA !== indexB) {
-                    return indexA - indexB; // Sort by earliness
-                }
-
-                // If indices are equal, sort lexicographically
-                return a.name.toLowerCase().localeCompare(b.name.toLowerCase());
-            });
+            // Rank the same way as the visible list, so the first Tab picks the top item.
+            const items = fuzzyRank(
+                this.current.value.slice(prefix.length),
+                (inline?.items ?? this.items).filter((item) => item.action === undefined),
+                (item) => item.name
+            ).map(({ item }) => item);
+            // The quick pick may have sorted another label match to the top, and focused it. Check
+            // what's shown against the ranking, and start from the shown item if they disagree.
+            const shown = this.current.activeItems[0];
+            const shownIndex =
+                shown === undefined || shown.action !== undefined
+                    ? -1
+                    : items.findIndex((item) => item.name === shown.name);
+            if (shownIndex > 0) {
+                items.unshift(...items.splice(shownIndex, 1));
+            }
             this.autoCompletion = {
                 index: tabNext ? 0 : items.length - 1,
                 items,
@@ -442,10 +1127,10 @@ class FileBrowser {
             // This also checks out when items is empty
             const item = this.autoCompletion.items[newIndex];
             if (length === 1 && item.fileType === vscode.FileType.Directory) {
-                this.current.value = item.name + '/';
+                this.current.value = prefix + item.name + '/';
             } else {
                 this.isAutoCompleteChange = true;
-                this.current.value = item.name;
+                this.current.value = prefix + item.name;
             }
 
             // Setting value automatically calls this.onDidChangeValue so calling with true won't achieve what we want
@@ -457,6 +1142,7 @@ class FileBrowser {
 
     onDidAccept() {
         this.autoCompletion = undefined;
+        this.commitInline();
         this.activeItem().ifSome((item) => {
             if (item.action !== undefined) {
                 this.runAction(item);
@@ -471,23 +1157,76 @@ class FileBrowser {
         });
     }
 
+    /**
+     * Hand what was picked to whoever opened the file browser as a dialog, along with everything
+     * marked if they asked for more than one.
+     */
+    async select(uri: Uri) {
+        const pick = this.opts.pick!;
+        const uris: Uri[] = [];
+        if (pick.many) {
+            for (const path of this.marked.values()) {
+                if (await this.canPick(path)) {
+                    uris.push(path.uri);
+                }
+            }
+        }
+        if (!uris.some((marked) => marked.toString() === uri.toString())) {
+            uris.push(uri);
+        }
+        pick.resolve(uris);
+        this.dispose();
+    }
+
+    /**
+     * Whether a marked file or folder is the kind of thing being picked, and gets past the filter.
+     */
+    async canPick(path: Path): Promise<boolean> {
+        const pick = this.opts.pick!;
+        if (await path.isDir()) {
+            return pick.folders;
+        }
+        try {
+            return pick.files && (this.opts.filter?.(path.uri) ?? true);
+        } catch (error) {
+            return false;
+        }
+    }
+
     openFile(uri: Uri, column: ViewColumn = ViewColumn.Active) {
+        if (this.opts.pick !== undefined) {
+            if (this.opts.pick.files) {
+                // New files are opened as untitled documents, but the picked file is the real one.
+                this.select(uri.scheme === "untitled" ? uri.with({ scheme: this.path.uri.scheme }) : uri);
+            }
+            return;
+        }
         this.dispose();
         if (this.opts.write) {
             const document = vscode.window.activeTextEditor?.document.getText();
             if (!document) {
                 return;
             }
-            try {
-                fs.mkdirSync(OSPath.dirname(uri.fsPath), {
-                    recursive: true
+            journal
+                .run(`Write "${OSPath.basename(uri.fsPath)}"`, (tx) =>
+                    tx.writeFile(uri, Buffer.from(document))
+                )
+                .then((result) => {
+                    result.ifErr((e) => {
+                        vscode.window.showErrorMessage(
+                            `Failed to create file.\n${e}`
+                        );
+                    });
+                    this.showDocument(uri, column);
                 });
-                fs.writeFileSync(uri.fsPath, document);
-            } catch (e) {
-                vscode.window.showErrorMessage(
-                    `Failed to create file.\n${e}`
-                );
-            }
+            return;
+        }
+        this.showDocument(uri, column);
+    }
+
+    showDocument(uri: Uri, column: ViewColumn) {
+        if (uri.scheme !== "untitled") {
+            recordRecent(this.context, new Path(uri), FileType.File);
         }
         vscode.workspace
             .openTextDocument(uri)
@@ -522,7 +1261,8 @@ class FileBrowser {
                 (workspaceFolder) => Uri.joinPath(workspaceFolder, result),
                 () => Uri.joinPath(this.path.uri, result)
             );
-            if ((await Result.try(vscode.workspace.fs.rename(uri, newUri))).isOk()) {
+            const renameOp = await journal.run(`Rename "${fileName}"`, (tx) => tx.rename(uri, newUri));
+            if (renameOp.isOk()) {
                 this.file = Some(OSPath.basename(result));
             } else {
                 vscode.window.showErrorMessage(
@@ -532,10 +1272,43 @@ class FileBrowser {
         }
     }
 
+    async copyOrMove(move: boolean) {
+        const source = this.path.clone();
+        const stat = await vscode.workspace.fs.stat(source.uri);
+        const isDir = (stat.type & FileType.Directory) === FileType.Directory;
+        const fileName = this.path.pop().unwrapOrElse(() => {
+            throw new Error(`Can't ${move ? "move" : "copy"} an empty file name!`);
+        });
+        const fileType = isDir ? "folder" : "file";
+        this.file = Some(fileName);
+        const destination = await pickFolder(
+            this.path.clone(),
+            `${move ? "Move" : "Copy"} the ${fileType} "${fileName}" to`
+        );
+        await destination.match(
+            async (folder) => {
+                const result = await transfer(journal, source, folder, move);
+                result.ifErr((error) => {
+                    vscode.window.showErrorMessage(
+                        `Failed to ${move ? "move" : "copy"} ${fileType} "${fileName}": ${error.message}`
+                    );
+                });
+            },
+            async () => {}
+        );
+    }
+
     async runAction(item: FileItem) {
         switch (item.action) {
             case Action.NewFolder: {
-                await vscode.workspace.fs.createDirectory(this.path.uri);
+                const uri = this.path.uri;
+                const createOp = await journal.run(
+                    `Create folder "${OSPath.basename(uri.fsPath)}"`,
+                    (tx) => tx.createDirectory(uri)
+                );
+                createOp.ifErr((error) => {
+                    vscode.window.showErrorMessage(`Failed to create folder: ${error.message}`);
+                });
                 await this.update();
                 break;
             }
@@ -570,6 +1343,17 @@ class FileBrowser {
                 this.update();
                 break;
             }
+            case Action.CopyFile:
+            case Action.MoveFile: {
+                this.keepAlive = true;
+                this.hide();
+                await this.copyOrMove(item.action === Action.MoveFile);
+                this.show();
+                this.keepAlive = false;
+                this.inActions = false;
+                this.update();
+                break;
+            }
             case Action.DeleteFile: {
                 this.keepAlive = true;
                 this.hide();
@@ -583,8 +1367,8 @@ class FileBrowser {
                 const goAhead = `$(trash) Delete the ${fileType} "${fileName}"`;
                 const result = await vscode.window.showQuickPick(["$(close) Cancel", goAhead], {});
                 if (result === goAhead) {
-                    const delOp = await Result.try(
-                        vscode.workspace.fs.delete(uri, { recursive: isDir })
+                    const delOp = await journal.run(`Delete ${fileType} "${fileName}"`, (tx) =>
+                        tx.delete(uri)
                     );
                     if (delOp.isErr()) {
                         vscode.window.showErrorMessage(
@@ -607,18 +1391,26 @@ class FileBrowser {
                 break;
             }
             case Action.Pin: {
-                this.togglePin(this.path);
-                this.hide();
+                await this.togglePin(this.path);
+                this.dispose();
                 break;
             }
-            case Action.OpenPin: {
-                let arg = (item as any).arg as PinnedItem;
+            case Action.OpenPin:
+            case Action.OpenRecent: {
+                let arg = (item as any).arg as Pin | RecentItem;
+                if (item.action === Action.OpenRecent && (await new Path(Uri.file(arg.fsPath)).stat()).isErr()) {
+                    await removeRecent(this.context, arg.fsPath);
+                    vscode.window.showWarningMessage(`${arg.fsPath} no longer exists.`);
+                    this.loadRecent();
+                    break;
+                }
                 if (arg.type === vscode.FileType.Directory) {
-                    this.path = Path.fromFilePath(arg.fsPath);
+                    this.path = new Path(Uri.file(arg.fsPath));
                     this.inActions = false;
+                    this.setRecursive(false);
                     this.update();
                 } else {
-                    this.path = Path.fromFilePath(arg.fsPath);
+                    this.path = new Path(Uri.file(arg.fsPath));
                     this.openFile(this.path.uri);
                 }
                 break;
@@ -652,6 +1444,88 @@ class FileBrowser {
                 this.hide();
                 break;
             }
+            case Action.OpenMarked: {
+                const paths = this.markedPaths();
+                this.dispose();
+                const failed: string[] = [];
+                for (const path of paths) {
+                    if (await path.isFile()) {
+                        const opened = await Result.try(
+                            vscode.workspace
+                                .openTextDocument(path.uri)
+                                .then((doc) => vscode.window.showTextDocument(doc, { preview: false }))
+                        );
+                        if (opened.isOk()) {
+                            recordRecent(this.context, path, FileType.File);
+                        } else {
+                            failed.push(OSPath.basename(path.fsPath));
+                        }
+                    }
+                }
+                if (failed.length > 0) {
+                    vscode.window.showErrorMessage(`Failed to open ${failed.join(", ")}`);
+                }
+                break;
+            }
+            case Action.DeleteMarked: {
+                this.keepAlive = true;
+                this.hide();
+                const paths = this.markedPaths();
+                const goAhead = `$(trash) Delete ${paths.length} marked ${paths.length === 1 ? "item" : "items"}`;
+                const result = await vscode.window.showQuickPick(["$(close) Cancel", goAhead], {});
+                if (result === goAhead) {
+                    const failed: string[] = [];
+                    await journal.run(`Delete ${paths.length} marked items`, async (tx) => {
+                        for (const path of paths) {
+                            const delOp = await Result.try(tx.delete(path.uri));
+                            if (delOp.isErr()) {
+                                failed.push(path.fsPath);
+                            } else {
+                                this.marked.delete(path.id);
+                            }
+                        }
+                    });
+                    if (failed.length > 0) {
+                        vscode.window.showErrorMessage(`Failed to delete ${failed.join(", ")}`);
+                    }
+                }
+                this.file = this.path.pop();
+                this.show();
+                this.keepAlive = false;
+                this.inActions = false;
+                this.update();
+                break;
+            }
+            case Action.PinMarked: {
+                for (const path of this.markedPaths()) {
+                    await pins.add(path, PinScope.Global);
+                }
+                this.hide();
+                break;
+            }
+            case Action.CopyMarkedPaths: {
+                vscode.env.clipboard.writeText(
+                    this.markedPaths().map((path) => path.fsPath).join("\n")
+                );
+                this.hide();
+                break;
+            }
+            case Action.Custom: {
+                const custom = (item as any).arg as CustomAction;
+                const uri = this.path.uri;
+                this.dispose();
+                const result = await Result.try(Promise.resolve(custom.run(uri)));
+                result.ifErr((error) => {
+                    const name = custom.label.replace(/\$\([\w-]+\)\s*/g, "");
+                    vscode.window.showErrorMessage(`${name} failed: ${error.message}`);
+                });
+                break;
+            }
+            case Action.UnmarkAll: {
+                this.unmarkAll();
+                await this.stepOut();
+                break;
+            }
             default:
                 throw new Error(`Unhandled action ${item.action}`);
         }
@@ -682,10 +1556,57 @@ async function handleGrepCommand(searchFileNameOnly: boolean = true) {
     }
 }
 
-export function activate(context: vscode.ExtensionContext) {
+async function handleJournalCommand(undo: boolean) {
+    const result = undo ? await journal.undo() : await journal.redo();
+    reportJournalResult(undo ? "Undo" : "Redo", result);
+    active.ifSome((active) => {
+        if (!active.inActions) {
+            active.update();
+        }
+    });
+}
+
+/**
+ * Open a file browser for the API, starting at `uri` if given, or where the commands start.
+ */
+async function openBrowser(
+    context: vscode.ExtensionContext,
+    uri: Uri | undefined,
+    opts: typeof FileBrowser.defaultConstructorOpts
+) {
+    if (uri === undefined) {
+        const document = vscode.window.activeTextEditor?.document;
+        const workspaceFolder = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+        uri = document && !document.isUntitled ? document.uri : workspaceFolder?.uri ?? Uri.file(OS.homedir());
+    }
+    const path = new Path(uri);
+    let file: Option<string> = None;
+    if (!(await path.isDir())) {
+        file = path.pop();
+    }
+    active.ifSome((active) => active.dispose());
+    active = Some(new FileBrowser(path, file, context, opts));
+    setContext(true);
+    setContext2(path);
+}
+
+export function activate(context: vscode.ExtensionContext): FileBrowserApi {
     setContext(false);
     setContext2(undefined);
 
+    journal = new Journal(trashFolder(context));
+    clearStaleTrash(context);
+
+    pins = new Pins(context);
+    directoryCache = initializeDirectoryCache(context);
+    navigationEmitter = new vscode.EventEmitter<Uri>();
+    context.subscriptions.push(navigationEmitter);
+
+    folderPreviewProvider = new FolderPreviewProvider();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(previewScheme, folderPreviewProvider)
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand("file-browser.open", (args: any) => {
             const document = vscode.window.activeTextEditor?.document;
@@ -734,6 +1655,103 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.recent", async () => {
+            const entries = await pruneRecent(context, await getRecent(context));
+            const picked = await vscode.window.showQuickPick(
+                entries.map((entry) => ({ label: recentLabel(entry), entry })),
+                { placeHolder: "Recently opened files and visited folders" }
+            );
+            if (picked === undefined) {
+                return;
+            }
+            const path = new Path(Uri.file(picked.entry.fsPath));
+            if ((await path.stat()).isErr()) {
+                await removeRecent(context, picked.entry.fsPath);
+                vscode.window.showWarningMessage(`${picked.entry.fsPath} no longer exists.`);
+                return;
+            }
+            if (picked.entry.type === FileType.Directory) {
+                active = Some(new FileBrowser(path, None, context));
+                setContext(true);
+                setContext2(path);
+            } else {
+                await recordRecent(context, path, FileType.File);
+                const doc = await vscode.workspace.openTextDocument(path.uri);
+                await vscode.window.showTextDocument(doc);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.openPin", async (key?: string | number) => {
+            let pin = key !== undefined ? pins.lookup(String(key)) : None;
+            if (key === undefined) {
+                const items = groupPins(pins.all()).reduce(
+                    (items: (QuickPickItem & { pin?: Pin })[], [group, groupPinned]) => [
+                        ...items,
+                        { label: group ?? "Pinned", kind: vscode.QuickPickItemKind.Separator },
+                        ...groupPinned.map((pin) => ({ label: pinLabel(pin), description: pinDescription(pin), pin })),
+                    ],
+                    []
+                );
+                const picked = await vscode.window.showQuickPick(items, { placeHolder: "Pinned files and folders" });
+                pin = new Option(picked?.pin);
+            } else if (pin.isNone()) {
+                vscode.window.showErrorMessage(`There's no pin with the index or alias "${key}".`);
+            }
+            await pin.match(
+                async (pin) => {
+                    const path = new Path(Uri.file(pin.fsPath));
+                    if (pin.type === FileType.Directory) {
+                        active.ifSome((active) => active.dispose());
+                        active = Some(new FileBrowser(path, None, context));
+                        setContext(true);
+                        setContext2(path);
+                    } else {
+                        const doc = await vscode.workspace.openTextDocument(path.uri);
+                        await vscode.window.showTextDocument(doc);
+                    }
+                },
+                async () => {}
+            );
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.exportPins", async () => {
+            const uri = await vscode.window.showSaveDialog({
+                filters: { JSON: ["json"] },
+                title: "Export pins",
+            });
+            if (uri !== undefined) {
+                const result = await Result.try(vscode.workspace.fs.writeFile(uri, Buffer.from(pins.export())));
+                result.ifErr((error) => vscode.window.showErrorMessage(`Failed to export pins: ${error.message}`));
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.importPins", async () => {
+            const uris = await vscode.window.showOpenDialog({
+                filters: { JSON: ["json"] },
+                title: "Import pins",
+            });
+            if (uris === undefined || uris.length === 0) {
+                return;
+            }
+            const content = await Result.try(vscode.workspace.fs.readFile(uris[0]));
+            const result = await content.match(
+                (content) => pins.import(Buffer.from(content).toString()),
+                async (error) => Err<number, Error>(error)
+            );
+            result.match(
+                (count) => vscode.window.showInformationMessage(`Imported ${count} pins.`),
+                (error) => vscode.window.showErrorMessage(`Failed to import pins: ${error.message}`)
+            );
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand("file-browser.rename", () =>
             active.orElse(() => {
@@ -764,6 +1782,31 @@ export function activate(context: vscode.ExtensionContext) {
             active.ifSome((active) => active.actions())
         )
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.togglePreview", () =>
+            active.ifSome((active) => active.togglePreview())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.toggleRecursive", () =>
+            active.ifSome((active) => active.toggleRecursive())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.cycleSortOrder", () =>
+            active.ifSome((active) => active.cycleSortOrder())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.toggleMark", () =>
+            active.ifSome((active) => active.toggleMark())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.unmarkAll", () =>
+            active.ifSome((active) => active.unmarkAll())
+        )
+    );
     context.subscriptions.push(
         vscode.commands.registerCommand("file-browser.tabNext", () =>
             active.ifSome((active) => active.tabCompletion(true))
@@ -775,6 +1818,13 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.undo", () => handleJournalCommand(true))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.redo", () => handleJournalCommand(false))
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand(
         "file-browser.grep",
@@ -794,17 +1844,57 @@ export function activate(context: vscode.ExtensionContext) {
 
     initializeSearchDirs(context);
 
+    const pick = (options: PickOptions = {}): Promise<Uri[] | undefined> =>
+        new Promise((resolve, reject) => {
+            const files = options.canSelectFiles ?? true;
+            const filter = options.filter;
+            openBrowser(context, options.uri, {
+                filter: files ? filter : () => false,
+                query: options.query,
+                pick: {
+                    files,
+                    folders: options.canSelectFolders ?? false,
+                    many: options.canSelectMany ?? false,
+                    resolve,
+                    reject,
+                },
+            }).catch(reject);
+        });
+
     return {
+        open: (options: OpenOptions = {}) => {
+            openBrowser(context, options.uri, {
+                write: options.write ?? false,
+                filter: options.filter,
+                query: options.query,
+            });
+        },
+        pick: (async (options?: PickOptions) => {
+            const uris = await pick(options);
+            return options?.canSelectMany ? uris : uris?.[0];
+        }) as FileBrowserApi["pick"],
+        registerAction: (action: CustomAction): vscode.Disposable => {
+            customActions.push(action);
+            return new vscode.Disposable(() => {
+                customActions = customActions.filter((custom) => custom !== action);
+            });
+        },
+        onDidNavigate: navigationEmitter.event,
         queryCurrentPath: (): string | undefined => {
             return active.unwrap()?.path.fsPath;
         },
         queryCurrentQueryValue: (): string | undefined => {
             return active.unwrap()?.current.value;
         },
+        expandPath: (value: string): string => {
+            return expandPath(value);
+        },
         close: () => {
             return active.unwrap()?.dispose();
         },
     };
 }
 
-export function deactivate() {}
+export async function deactivate() {
+    await journal?.clearTrash();
+}
@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import { QuickPickItem, FileType } from "vscode";
+import { QuickPickItem, FileType, FileStat } from "vscode";
 import { Action } from "./action";
 import { config, ConfigItem } from "./extension";
 
@@ -12,6 +12,15 @@ export class FileItem implements QuickPickItem {
     fileType?: FileType;
     action?: Action;
     buttons?: readonly vscode.QuickInputButton[];
+    kind?: vscode.QuickPickItemKind;
+    marked?: boolean;
+    /**
+     * Ranges of the label matched by the fuzzy filter, for VS Code versions which can render
+     * quick pick item highlights.
+     */
+    highlights?: { label: [number, number][] };
+    stat?: FileStat;
+    mode?: number;
 
     constructor(record: [string, FileType]) {
         const [name, fileType] = record;
@@ -41,6 +50,17 @@ export function itemIsDir(item: FileItem): boolean {
     return !!(item.fileType | FileType.Directory);
 }
 
+const markPrefix = "$(check) ";
+
+/**
+ * Set the marked state of an item, updating its label to match.
+ */
+export function markItem(item: FileItem, marked: boolean) {
+    const label = item.label.startsWith(markPrefix) ? item.label.slice(markPrefix.length) : item.label;
+    item.marked = marked;
+    item.label = marked ? markPrefix + label : label;
+}
+
 export function fileRecordCompare(left: [string, FileType], right: [string, FileType]): -1 | 0 | 1 {
     const [leftName, leftDir] = [
         left[0].toLowerCase(),
@@ -1,70 +1,497 @@
 import * as vscode from "vscode";
-import { None, Option, Result } from "./rust";
+import { None, Option, Some } from "./rust";
 import { Uri } from "vscode";
 import { lookUpwards, Path } from "./path";
 import ignore from "ignore";
 import { Ignore } from "ignore";
-import { FileItem, itemIsDir } from "./fileitem";
+import { FileItem, itemIsDir, fileRecordCompare } from "./fileitem";
 import * as OSPath from "path";
+import * as OS from "os";
 import { config, ConfigItem } from "./extension";
+import { LruCache } from "./cache";
 
-export class Rules {
-    private path: Path;
-    private name: string;
-    private rules: Ignore;
+/**
+ * Find the ignore file which applies to `path`: the first of the files in
+ * `file-browser.ignoreFileTypes` found looking upwards from it.
+ */
+export async function findRuleFile(path: Path): Promise<Option<Uri>> {
+    const ruleFileNames: string[] | undefined = config(ConfigItem.IgnoreFileTypes);
+    if (ruleFileNames === undefined) {
+        return None;
+    }
+    const ruleFilePath = await lookUpwards(path.uri, ruleFileNames);
+    return ruleFilePath.match(
+        (ruleFilePath) => Some(ruleFilePath),
+        () => None
+    );
+}
+
+interface CacheEntry {
+    mtime: number;
+    size: number;
+    value: unknown;
+}
+
+const fileCache = new Map<string, CacheEntry>();
+
+/**
+ * Which version of a file was read, by its modification time and size, keyed by its [[Uri]].
+ */
+type Stamps = Map<string, string>;
+
+function stamp(stat: vscode.FileStat | undefined): string {
+    return stat === undefined || stat.type & vscode.FileType.Directory ? "missing" : `${stat.mtime}:${stat.size}`;
+}
+
+/**
+ * Read and parse a file, reusing the last parse for as long as the file's modification time and
+ * size stay the same. Returns [[None]] if the file doesn't exist. The version read is recorded in
+ * `stamps`, if given.
+ */
+async function cachedRead<T>(uri: Uri, parse: (text: string) => T, stamps?: Stamps): Promise<Option<T>> {
+    const key = uri.toString();
+    const stat = (await new Path(uri).stat()).unwrap();
+    stamps?.set(key, stamp(stat));
+    if (stat === undefined || stat.type & vscode.FileType.Directory) {
+        fileCache.delete(key);
+        return None;
+    }
+    const cached = fileCache.get(key);
+    if (cached !== undefined && cached.mtime === stat.mtime && cached.size === stat.size) {
+        return Some(cached.value as T);
+    }
+    let text: string;
+    try {
+        text = (await vscode.workspace.fs.readFile(uri)).toString();
+    } catch {
+        fileCache.delete(key);
+        return None;
+    }
+    const value = parse(text);
+    fileCache.set(key, { mtime: stat.mtime, size: stat.size, value });
+    return Some(value);
+}
+
+function parseRules(text: string): Ignore {
+    return ignore().add(text.split(/\r?\n/));
+}
 
-    private constructor(path: Path) {
-        this.path = path;
-        this.rules = ignore();
-        this.name = "empty";
+/**
+ * Pick `core.excludesFile` out of a git config file.
+ */
+function parseExcludesFile(text: string): string | undefined {
+    let section = "";
+    let excludesFile: string | undefined = undefined;
+    for (const line of text.split(/\r?\n/)) {
+        const header = /^\s*\[\s*([^\]\s]+)[^\]]*\]/.exec(line);
+        if (header !== null) {
+            section = header[1].toLowerCase();
+            continue;
+        }
+        const entry = /^\s*(\w+)\s*=\s*(.*?)\s*$/.exec(line);
+        if (section === "core" && entry !== null && entry[1].toLowerCase() === "excludesfile") {
+            excludesFile = entry[2].replace(/^"(.*)"$/, "$1");
+        }
     }
+    return excludesFile;
+}
+
+/**
+ * Find the user's global git ignore file: `core.excludesFile` from the user's git config or the
+ * repository's, or git's default of `$XDG_CONFIG_HOME/git/ignore`.
+ */
+async function globalExcludesFile(gitDir: Option<Uri>, stamps: Stamps): Promise<Uri> {
+    const home = OS.homedir();
+    const xdgConfig = process.env.XDG_CONFIG_HOME || OSPath.join(home, ".config");
+    const configFiles = [Uri.file(OSPath.join(xdgConfig, "git", "config")), Uri.file(OSPath.join(home, ".gitconfig"))];
+    gitDir.ifSome((gitDir) => configFiles.push(Uri.joinPath(gitDir, "config")));
+    let excludesFile = OSPath.join(xdgConfig, "git", "ignore");
+    // Later files override earlier ones, the same way git reads them.
+    for (const configFile of configFiles) {
+        (await cachedRead(configFile, parseExcludesFile, stamps)).ifSome((value) => {
+            if (value !== undefined) {
+                excludesFile = value.replace(/^~(?=$|[/\\])/, home);
+            }
+        });
+    }
+    return Uri.file(excludesFile);
+}
+
+/**
+ * A set of ignore rules, and the folder they're relative to.
+ */
+interface Layer {
+    base: Path;
+    name: string;
+    rules: Ignore;
+}
+
+/**
+ * The ignore rules which apply to a folder, made up of layers from every source that applies to
+ * it, lowest precedence first, the same way git combines them:
+ *
+ * - the user's global excludes file, `core.excludesFile`,
+ * - the repository's `.git/info/exclude`,
+ * - an ignore file in each folder from the root of the repository down to the folder itself,
+ *   where rules in deeper folders win and can re-include files with `!`.
+ *
+ * VS Code's `files.exclude` setting is applied on top, and files it excludes can't be re-included.
+ *
+ * In each folder, only the first of the files in `file-browser.ignoreFileTypes` is used. Outside
+ * a git repository the layers start at the workspace folder instead, or at the highest folder
+ * with an ignore file.
+ */
+export class Rules {
+    private layers: Layer[] = [];
+    private excludes: Layer[] = [];
+    /**
+     * Every file looked for while reading the rules, including the ones which didn't exist, so
+     * they can be checked for changes.
+     */
+    private sources: Stamps = new Map();
+
+    private constructor() {}
 
     static async forPath(path: Path): Promise<Rules> {
-        const ruleFileNames: string[] | undefined = config(ConfigItem.IgnoreFileTypes);
-        if (ruleFileNames === undefined) {
-            return new Rules(path);
-        }
-        const ruleFilePath = await lookUpwards(path.uri, ruleFileNames);
-        return ruleFilePath.match(
-            async (ruleFilePath) => await Rules.read(ruleFilePath),
-            async () => new Rules(path)
+        const rules = new Rules();
+        const ruleFileNames: string[] = config(ConfigItem.IgnoreFileTypes) ?? [];
+
+        const gitDir = (await lookUpwards(path.uri, [".git"], async (path) => (await path.stat()).isOk())).match(
+            (gitDir) => Some(gitDir),
+            () => None
+        );
+        const root = await gitDir.match(
+            async (gitDir) => new Path(gitDir).parent(),
+            async () => await Rules.rootWithoutGit(path)
         );
-    }
 
-    static async read(ruleFilePath: Uri): Promise<Rules> {
-        const ruleString = (await vscode.workspace.fs.readFile(ruleFilePath)).toString();
-        const ruleList = ruleString.trim().split(/\r?\n/);
-        const rules = new Rules(new Path(ruleFilePath).parent());
-        rules.name = OSPath.basename(ruleFilePath.path);
-        rules.add(ruleList);
+        if (path.uri.scheme === "file") {
+            await rules.addFile(root, await globalExcludesFile(gitDir, rules.sources), "global excludes");
+        }
+        const infoExclude = gitDir.map((gitDir) => Uri.joinPath(gitDir, "info", "exclude")).unwrap();
+        if (infoExclude !== undefined) {
+            await rules.addFile(root, infoExclude, "info/exclude");
+        }
+        for (const folder of Rules.foldersBetween(root, path)) {
+            for (const name of ruleFileNames) {
+                if (await rules.addFile(folder, folder.append(name).uri, name)) {
+                    break;
+                }
+            }
+        }
+
+        const exclude: { [glob: string]: unknown } =
+            vscode.workspace.getConfiguration("files", path.uri).get("exclude") ?? {};
+        const globs = Object.keys(exclude).filter((glob) => exclude[glob] === true);
+        if (globs.length > 0) {
+            const base = path.getWorkspaceFolder().match(
+                (folder) => new Path(folder.uri),
+                () => root
+            );
+            rules.excludes.push({ base, name: "files.exclude", rules: ignore().add(globs) });
+        }
         return rules;
     }
 
-    private add(rules: string[]) {
-        this.rules.add(rules);
+    /**
+     * Check whether any of the files looked for while reading the rules has changed, appeared or
+     * gone away. Files for which `isWatched` is true are skipped, as changes to them are noticed
+     * anyway.
+     */
+    async isCurrent(isWatched: (uri: Uri) => boolean): Promise<boolean> {
+        const sources = [...this.sources]
+            .map(([key, read]) => [Uri.parse(key), read] as [Uri, string])
+            .filter(([uri]) => !isWatched(uri));
+        const current = await Promise.all(
+            sources.map(async ([uri, read]) => stamp((await new Path(uri).stat()).unwrap()) === read)
+        );
+        return current.every((same) => same);
+    }
+
+    /**
+     * Outside of a git repository, rule files apply from the workspace folder down, or from the
+     * highest folder above `path` which has one.
+     */
+    private static async rootWithoutGit(path: Path): Promise<Path> {
+        const workspaceFolder = path.getWorkspaceFolder();
+        if (workspaceFolder.isSome()) {
+            return new Path(workspaceFolder.unwrap()!.uri);
+        }
+        let root = path;
+        let ruleFile = await findRuleFile(path);
+        while (ruleFile.isSome()) {
+            root = new Path(ruleFile.unwrap()!).parent();
+            if (root.atTop()) {
+                break;
+            }
+            ruleFile = await findRuleFile(root.parent());
+        }
+        return root;
+    }
+
+    /**
+     * The folders from `root` down to `path`, both included.
+     */
+    private static foldersBetween(root: Path, path: Path): Path[] {
+        const folders: Path[] = [];
+        const folder = path.clone();
+        while (true) {
+            folders.unshift(folder.clone());
+            if (folder.equals(root) || folder.pop().isNone()) {
+                break;
+            }
+        }
+        return folder.equals(root) ? folders : [path];
+    }
+
+    /**
+     * Add a layer from the rule file at `uri`, if it exists.
+     */
+    private async addFile(base: Path, uri: Uri, name: string): Promise<boolean> {
+        const rules = await cachedRead(uri, parseRules, this.sources);
+        rules.ifSome((rules) => this.layers.push({ base, name, rules }));
+        return rules.isSome();
+    }
+
+    /**
+     * Find the layer which ignores `path`, if any. A file is ignored by the last layer with a rule
+     * matching it, unless that rule starts with `!`.
+     */
+    private match(path: Path, isDir: boolean): Option<string> {
+        const test = (layer: Layer) => {
+            const relative = path.relativeTo(layer.base.uri).unwrap();
+            if (relative === undefined || relative === "" || relative.startsWith("..") || OSPath.isAbsolute(relative)) {
+                return undefined;
+            }
+            return layer.rules.test(relative.split(OSPath.sep).join("/") + (isDir ? "/" : ""));
+        };
+        for (const layer of this.excludes) {
+            if (test(layer)?.ignored) {
+                return Some(layer.name);
+            }
+        }
+        let ignoredBy: string | undefined = undefined;
+        for (const layer of this.layers) {
+            const result = test(layer);
+            if (result?.ignored) {
+                ignoredBy = layer.name;
+            } else if (result?.unignored) {
+                ignoredBy = undefined;
+            }
+        }
+        return new Option(ignoredBy);
+    }
+
+    /**
+     * Whether the file at `path`, in the folder `base` these rules are for, is ignored.
+     */
+    ignores(base: Path, path: Path): boolean {
+        return this.match(base, true).isSome() || this.match(path, false).isSome();
     }
 
     filter(base: Path, items: FileItem[]): FileItem[] {
+        // Git can't re-include anything inside an ignored folder, so neither do we.
+        const baseIgnoredBy = this.match(base, true);
         return items.map((item) => {
-            let path = base
-                .append(item.name)
-                .relativeTo(this.path.uri)
-                .unwrapOrElse(() => {
-                    throw new Error(
-                        "Tried to apply ignore rules to a path that wasn't relative to the rule path!"
-                    );
-                });
-            if (itemIsDir(item)) {
-                path += "/";
-            }
-            const ignored = this.rules.test(path).ignored;
-            if (ignored) {
+            const ignoredBy = baseIgnoredBy.isSome()
+                ? baseIgnoredBy
+                : this.match(base.append(item.name), itemIsDir(item));
+            ignoredBy.ifSome((name) => {
                 item.alwaysShow = false;
                 if (config(ConfigItem.LabelIgnoredFiles)) {
-                    item.description = `(in ${this.name})`;
+                    item.description = `(in ${name})`;
                 }
-            }
+            });
             return item;
         });
     }
 }
+
+const maxCachedListings = 100;
+const maxCachedRules = 200;
+
+interface Listing {
+    watcher: vscode.FileSystemWatcher;
+    /**
+     * The folder's entries and modification time, or `undefined` if it changed since it was read.
+     */
+    records?: [string, vscode.FileType][];
+    mtime: number;
+    /**
+     * Counts changes, so a read which was overtaken by a change isn't cached.
+     */
+    version: number;
+}
+
+/**
+ * Keeps the most recently used folder listings, and the ignore rules for them, so stepping in and
+ * out of folders doesn't read them all over again.
+ *
+ * Each cached listing is watched for changes, and ignore files are watched across the workspace.
+ * [[onDidChange]] fires with the folder whenever something in it changes, so an open file browser
+ * can show the change.
+ */
+export class DirectoryCache implements vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<Uri>();
+    onDidChange = this.changeEmitter.event;
+
+    private listings = new LruCache<Listing>(maxCachedListings, (_, listing) => listing.watcher.dispose());
+    private rules = new LruCache<Rules>(maxCachedRules);
+    private ruleWatchers: vscode.Disposable[] = [];
+    private configWatcher: vscode.Disposable;
+
+    constructor() {
+        this.watchRuleFiles();
+        this.configWatcher = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("file-browser") || event.affectsConfiguration("files.exclude")) {
+                this.rules.clear();
+                this.watchRuleFiles();
+            }
+        });
+    }
+
+    dispose() {
+        this.listings.clear();
+        this.ruleWatchers.forEach((watcher) => watcher.dispose());
+        this.configWatcher.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    private watchRuleFiles() {
+        this.ruleWatchers.forEach((watcher) => watcher.dispose());
+        const ruleFileNames: string[] = config(ConfigItem.IgnoreFileTypes) ?? [];
+        const watchers = [vscode.workspace.createFileSystemWatcher("**/.git/info/exclude")];
+        if (ruleFileNames.length > 0) {
+            watchers.push(vscode.workspace.createFileSystemWatcher(`**/{${ruleFileNames.join(",")}}`));
+        }
+        const onChange = (uri: Uri) => {
+            this.rules.clear();
+            const folder = OSPath.basename(uri.path) === "exclude" ? Uri.joinPath(uri, "..", "..", "..") : Uri.joinPath(uri, "..");
+            this.changeEmitter.fire(folder);
+        };
+        this.ruleWatchers = watchers;
+        for (const watcher of watchers) {
+            this.ruleWatchers.push(watcher.onDidCreate(onChange), watcher.onDidChange(onChange), watcher.onDidDelete(onChange));
+        }
+    }
+
+    /**
+     * Read the entries of a folder, from the cache if it hasn't changed since it was last read.
+     */
+    async readDirectory(path: Path): Promise<[string, vscode.FileType][]> {
+        const stat = await vscode.workspace.fs.stat(path.uri);
+        let listing = this.listings.get(path.id);
+        if (listing?.records !== undefined && listing.mtime === stat.mtime) {
+            return listing.records;
+        }
+        if (listing === undefined) {
+            // Start watching before reading, so nothing that happens in between is missed.
+            listing = { watcher: this.watch(path), mtime: stat.mtime, version: 0 };
+            this.listings.set(path.id, listing);
+        }
+        const version = listing.version;
+        const records = await vscode.workspace.fs.readDirectory(path.uri);
+        if (listing.version === version) {
+            listing.records = records;
+            listing.mtime = stat.mtime;
+        }
+        return records;
+    }
+
+    private watch(path: Path): vscode.FileSystemWatcher {
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(path.uri, "*"));
+        const onChange = (uri: Uri) => {
+            const listing = this.listings.get(path.id);
+            if (listing !== undefined) {
+                listing.records = undefined;
+                listing.version++;
+            }
+            const ruleFileNames: string[] = config(ConfigItem.IgnoreFileTypes) ?? [];
+            if (ruleFileNames.includes(OSPath.basename(uri.path))) {
+                this.rules.clear();
+            }
+            this.changeEmitter.fire(path.uri);
+        };
+        watcher.onDidCreate(onChange);
+        watcher.onDidChange(onChange);
+        watcher.onDidDelete(onChange);
+        return watcher;
+    }
+
+    /**
+     * Whether changes to a rule file are picked up by the watchers from [[watchRuleFiles]], which
+     * only see inside the workspace.
+     */
+    private isWatched(uri: Uri): boolean {
+        if (vscode.workspace.getWorkspaceFolder(uri) === undefined) {
+            return false;
+        }
+        const ruleFileNames: string[] = config(ConfigItem.IgnoreFileTypes) ?? [];
+        return ruleFileNames.includes(OSPath.basename(uri.path)) || uri.path.endsWith("/.git/info/exclude");
+    }
+
+    /**
+     * Get the ignore rules for a folder, from the cache if no ignore file or setting has changed
+     * since they were read. Rule files in the workspace are watched; the others, like the user's
+     * git config and global excludes file, are checked on every use.
+     */
+    async rulesFor(path: Path): Promise<Rules> {
+        const cached = this.rules.get(path.id);
+        if (cached !== undefined && (await cached.isCurrent((uri) => this.isWatched(uri)))) {
+            return cached;
+        }
+        const rules = await Rules.forPath(path);
+        this.rules.set(path.id, rules);
+        return rules;
+    }
+}
+
+let directoryCache: DirectoryCache | undefined = undefined;
+
+export function initializeDirectoryCache(context: vscode.ExtensionContext): DirectoryCache {
+    directoryCache = new DirectoryCache();
+    context.subscriptions.push(directoryCache);
+    return directoryCache;
+}
+
+/**
+ * Make a test for whether the ignore settings hide a file from the file browser, for checking a
+ * lot of files at once. The rules are only looked up once for each folder.
+ */
+export function ignoreTest(): (path: Path) => Promise<boolean> {
+    const rulesByFolder = new Map<string, Promise<Rules>>();
+    return async (path) => {
+        const folder = path.parent();
+        let rules = rulesByFolder.get(folder.id);
+        if (rules === undefined) {
+            rules = directoryCache !== undefined ? directoryCache.rulesFor(folder) : Rules.forPath(folder);
+            rulesByFolder.set(folder.id, rules);
+        }
+        return (await rules).ignores(folder, path);
+    };
+}
+
+/**
+ * Read the contents of a folder as a sorted list of [[FileItem]]s, with the ignore rules from the
+ * settings applied.
+ *
+ * Pass `cache: false` for folders which are unlikely to be listed again, like those found walking
+ * a whole tree, so neither their listings nor their rules push everything else out of the cache.
+ */
+export async function listDirectory(path: Path, cache: boolean = true): Promise<FileItem[]> {
+    const records =
+        cache && directoryCache !== undefined
+            ? [...(await directoryCache.readDirectory(path))]
+            : await vscode.workspace.fs.readDirectory(path.uri);
+    records.sort(fileRecordCompare);
+    let items = records.map((entry) => new FileItem(entry));
+    if (config(ConfigItem.HideIgnoreFiles)) {
+        const rules =
+            cache && directoryCache !== undefined ? await directoryCache.rulesFor(path) : await Rules.forPath(path);
+        items = rules.filter(path, items);
+    }
+    if (config(ConfigItem.RemoveIgnoredFiles)) {
+        items = items.filter((item) => item.alwaysShow);
+    }
+    return items;
+}
@@ -0,0 +1,181 @@
+import { None, Option, Some } from "./rust";
+
+/**
+ * The result of matching a query against a candidate string.
+ */
+export interface FuzzyMatch {
+    score: number;
+    /**
+     * The indices in the candidate string of the matched characters.
+     */
+    positions: number[];
+}
+
+const scoreMatch = 16;
+const bonusConsecutive = 8;
+const bonusBoundary = 10;
+const bonusSeparator = 12;
+const bonusCamelCase = 8;
+const firstCharMultiplier = 2;
+const penaltyGapStart = 3;
+const penaltyGapExtension = 1;
+
+function isUpper(char: string): boolean {
+    return char !== char.toLowerCase() && char === char.toUpperCase();
+}
+
+function isLower(char: string): boolean {
+    return char !== char.toUpperCase() && char === char.toLowerCase();
+}
+
+function isDigit(char: string): boolean {
+    return char >= "0" && char <= "9";
+}
+
+/**
+ * How much matching the character at `index` is worth on top of the base score: characters
+ * starting a word, a path segment or a camelCase hump are more likely to be what the user meant.
+ */
+function bonusAt(candidate: string, index: number): number {
+    if (index === 0) {
+        return bonusBoundary;
+    }
+    const prev = candidate[index - 1];
+    const char = candidate[index];
+    if (prev === "/" || prev === "\\") {
+        return bonusSeparator;
+    }
+    if (/[\s_\-.]/.test(prev)) {
+        return bonusBoundary;
+    }
+    if ((isLower(prev) && isUpper(char)) || (!isDigit(prev) && isDigit(char))) {
+        return bonusCamelCase;
+    }
+    return 0;
+}
+
+/**
+ * Match `query` as a subsequence of `candidate`, in the style of fzf: matches at word
+ * boundaries, path separators and camelCase humps score higher, consecutive matches score higher,
+ * and gaps between matched characters are penalised.
+ *
+ * The match is case insensitive unless the query contains upper case characters.
+ *
+ * Returns [[None]] if `query` isn't a subsequence of `candidate`.
+ */
+export function fuzzyMatch(query: string, candidate: string): Option<FuzzyMatch> {
+    if (query.length === 0) {
+        return Some({ score: 0, positions: [] });
+    }
+    const caseSensitive = query !== query.toLowerCase();
+    const needle = caseSensitive ? query : query.toLowerCase();
+    const haystack = caseSensitive ? candidate : candidate.toLowerCase();
+    const n = needle.length;
+    const m = haystack.length;
+
+    let next = 0;
+    for (let j = 0; j < m && next < n; j++) {
+        if (haystack[j] === needle[next]) {
+            next++;
+        }
+    }
+    if (next < n) {
+        return None;
+    }
+
+    const bonuses = Array.from(candidate, (_, index) => bonusAt(candidate, index));
+    // scores[i][j] is the best score for matching needle[0..i] with needle[i] at haystack[j],
+    // and from[i][j] is where needle[i - 1] was matched to get that score.
+    const scores: number[][] = [];
+    const from: number[][] = [];
+    for (let i = 0; i < n; i++) {
+        const row = new Array<number>(m).fill(-Infinity);
+        const fromRow = new Array<number>(m).fill(-1);
+        // The best of scores[i - 1][k] + penaltyGapExtension * k for k <= j - 2, which lets us
+        // find the best match preceding a gap in constant time.
+        let bestBeforeGap = -Infinity;
+        let bestBeforeGapIndex = -1;
+        for (let j = i; j < m; j++) {
+            if (i > 0 && j >= 2) {
+                const candidateScore = scores[i - 1][j - 2] + penaltyGapExtension * (j - 2);
+                if (candidateScore > bestBeforeGap) {
+                    bestBeforeGap = candidateScore;
+                    bestBeforeGapIndex = j - 2;
+                }
+            }
+            if (haystack[j] !== needle[i]) {
+                continue;
+            }
+            if (i === 0) {
+                row[j] = scoreMatch + bonuses[j] * firstCharMultiplier;
+                continue;
+            }
+            const consecutive = scores[i - 1][j - 1] + scoreMatch + bonuses[j] + bonusConsecutive;
+            const afterGap =
+                bestBeforeGap -
+                penaltyGapStart -
+                penaltyGapExtension * (j - 2) +
+                scoreMatch +
+                bonuses[j];
+            if (consecutive >= afterGap) {
+                row[j] = consecutive;
+                fromRow[j] = j - 1;
+            } else {
+                row[j] = afterGap;
+                fromRow[j] = bestBeforeGapIndex;
+            }
+        }
+        scores.push(row);
+        from.push(fromRow);
+    }
+
+    let end = -1;
+    let score = -Infinity;
+    scores[n - 1].forEach((value, index) => {
+        if (value > score) {
+            score = value;
+            end = index;
+        }
+    });
+    const positions: number[] = [];
+    for (let i = n - 1; i >= 0; i--) {
+        positions.unshift(end);
+        end = from[i][end];
+    }
+    return Some({ score, positions });
+}
+
+/**
+ * Match `query` against each item, and return the matching ones with their matches, best first.
+ * Items with equal scores are ordered by the length of their key, then by their original order.
+ */
+export function fuzzyRank<A>(
+    query: string,
+    items: A[],
+    key: (item: A) => string
+): { item: A; match: FuzzyMatch }[] {
+    const matches: { item: A; match: FuzzyMatch }[] = [];
+    for (const item of items) {
+        fuzzyMatch(query, key(item)).ifSome((match) => matches.push({ item, match }));
+    }
+    return matches.sort(
+        (left, right) =>
+            right.match.score - left.match.score || key(left.item).length - key(right.item).length
+    );
+}
+
+/**
+ * Turn a list of matched positions into a list of `[start, end)` ranges, shifted by `offset`.
+ */
+export function positionsToRanges(positions: number[], offset: number = 0): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const position of positions) {
+        const last = ranges[ranges.length - 1];
+        if (last !== undefined && last[1] === position + offset) {
+            last[1] += 1;
+        } else {
+            ranges.push([position + offset, position + offset + 1]);
+        }
+    }
+    return ranges;
+}
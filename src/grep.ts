@@ -1,31 +1,111 @@
 import * as vscode from "vscode";
 import * as cp from "child_process";
-// import { quote } from "shell-quote";
 import * as path from "path";
-import { join } from "shlex";
-import * as os from "os";
 import * as fs from 'fs';
+import { config, ConfigItem } from "./extension";
+import { Result, Ok, Err } from "./rust";
+import { replaceMatches } from "./replace";
+import { SearchResults, resultsScheme } from "./results";
+import { SearchQuery, parseQuery, queryArgs, queryFileArgs, queryRegExp } from "./query";
+import { SearchHistory, SearchMode, SearchScope } from "./history";
+import { describeScopes, openEditorFiles, pickScopes } from "./scopes";
+import { Pins } from "./pins";
+import { Path } from "./path";
+import { ignoreTest } from "./filter";
 
 const MAX_DESC_LENGTH = 1000;
-const MAX_BUF_SIZE = 200000 * 1024;
+const FLUSH_INTERVAL = 50;
+const DEFAULT_MAX_RESULTS = 5000;
 
 let active: SearchBrowser;
+let searchResults: SearchResults;
+let searchHistory: SearchHistory;
+let searchPins: Pins;
+
+const RG_BINARY = process.platform === "win32" ? "rg.exe" : "rg";
+
+function findOnPath(name: string): string | undefined {
+  return (process.env.PATH ?? '')
+    .split(path.delimiter)
+    .filter((dir) => dir !== '')
+    .map((dir) => path.join(dir, name))
+    .find((candidate) => fs.existsSync(candidate));
+}
 
-const getRgPath = () => {
-  let attempt1 = vscode.env.appRoot + '/node_modules.asar.unpacked/@vscode/ripgrep/bin/rg.exe';
-  let attempt2 = vscode.env.appRoot + '/node_modules/@vscode/ripgrep/bin/rg.exe';
+/**
+ * Find the ripgrep binary. `file-browser.ripgrepPath` wins if it's set; otherwise we use the copy
+ * bundled with VS Code, wherever this build keeps its node_modules, and then `rg` on the `PATH`.
+ */
+const getRgPath = (): Result<string, Error> => {
+  const configured = config<string>(ConfigItem.RipgrepPath);
+  if (configured) {
+    const found = configured.includes('/') || configured.includes('\\')
+      ? (fs.existsSync(configured) ? configured : undefined)
+      : findOnPath(configured);
+    return found !== undefined
+      ? Ok(found)
+      : Err(new Error(`Can't find ripgrep at "${configured}", as set in file-browser.ripgrepPath.`));
+  }
 
-  if (fs.existsSync(attempt1)) {
-    return attempt1;
-  } else if (fs.existsSync(attempt2)) {
-    return attempt2;
-  } else {
-    throw 'Can\'t find ripgrep';
+  for (const layout of ['node_modules.asar.unpacked', 'node_modules']) {
+    for (const pkg of ['@vscode/ripgrep', 'vscode-ripgrep']) {
+      const candidate = path.join(vscode.env.appRoot, layout, pkg, 'bin', RG_BINARY);
+      if (fs.existsSync(candidate)) {
+        return Ok(candidate);
+      }
+    }
   }
+
+  const onPath = findOnPath(RG_BINARY);
+  return onPath !== undefined
+    ? Ok(onPath)
+    : Err(new Error("Can't find ripgrep. Install it and put it on your PATH, or set file-browser.ripgrepPath to the rg binary."));
 };
 
+async function showRgError(error: Error) {
+  const openSettings = "Open Settings";
+  const choice = await vscode.window.showErrorMessage(error.message, openSettings);
+  if (choice === openSettings) {
+    vscode.commands.executeCommand("workbench.action.openSettings", "file-browser.ripgrepPath");
+  }
+}
+
 interface QuickPickItemWithLine extends vscode.QuickPickItem {
   num: number;
+  /**
+   * The file the result is in.
+   */
+  file?: string;
+  /**
+   * The range of the first match on the line, for content results.
+   */
+  range?: vscode.Range;
+  /**
+   * Character ranges of the matches within the description. Only rendered by VS Code versions
+   * supporting quick pick item highlights.
+   */
+  highlights?: { description: [number, number][] };
+  /**
+   * The full text of the line and the character ranges of every match on it, for content matches.
+   */
+  line?: string;
+  submatches?: [number, number][];
+}
+
+/**
+ * The part of an `rg --json` message we use: the `match` and `context` messages, which look like
+ * `{"type": "match", "data": {"path": {"text": "./a.ts"}, "lines": {"text": "..."}, "line_number": 3,
+ * "submatches": [{"start": 4, "end": 7}]}}`. Paths and lines which aren't valid UTF-8 come as base64
+ * encoded `bytes` instead of `text`.
+ */
+interface RgMessage {
+  type: string;
+  data: {
+    path?: { text?: string; bytes?: string };
+    lines?: { text?: string; bytes?: string };
+    line_number?: number;
+    submatches?: { start: number; end: number }[];
+  };
 }
 
 function debounce(callback: (...arg0: any[]) => any, wait: number) {
@@ -75,32 +155,110 @@ async function getCurrentFileDirectory(): Promise<string> {
   return pwdString;
 }
 
-function quote(strs: string[]): string {
-  // if (os.platform() !== "win32") {
-  if (process.platform !== "win32") {
-    // shell-quote is broken, shlex is more mature.
-    return join(strs);
+/**
+ * Build the regex the content search looked for, made sticky so it can be run at the positions rg
+ * reported a match, to fill in capture groups when replacing.
+ */
+function replaceRegExp(query: SearchQuery): Result<RegExp, Error> {
+  if (query.rawArgs.includes('-v') || query.rawArgs.includes('--invert-match')) {
+    return Err(new Error("Can't replace the results of a search with -v."));
+  }
+  if (query.pattern === '') {
+    return Err(new Error("There's no pattern to replace."));
   }
+  return queryRegExp(query, 'y');
+}
 
-  // not sure how to quote for cmd prompt...
-  // https://learn.microsoft.com/en-us/cli/azure/use-azure-cli-successfully-quoting
-  return strs.map(s => {
-    if (s.indexOf(' ') !== -1 || s.indexOf('\t') !== -1) {
-      return `"${s}"`;
-    } else {
-      return s;
-    }
-  }).join(' ');
+function rgText(data?: { text?: string; bytes?: string }): Buffer | undefined {
+  if (data?.text !== undefined) {
+    return Buffer.from(data.text, 'utf8');
+  }
+  if (data?.bytes !== undefined) {
+    return Buffer.from(data.bytes, 'base64');
+  }
+  return undefined;
+}
+
+/**
+ * Turn a `match` or `context` message from `rg --json` into an item. Context lines are indented
+ * under the match they belong to, and aren't highlighted.
+ */
+function parseContentLine(line: string, dir: string): QuickPickItemWithLine | undefined {
+  let message: RgMessage;
+  try {
+    message = JSON.parse(line);
+  } catch (e) {
+    return undefined;
+  }
+  if (message.type !== 'match' && message.type !== 'context') {
+    return undefined;
+  }
+  const file = rgText(message.data.path)?.toString('utf8');
+  const bytes = rgText(message.data.lines);
+  const num = message.data.line_number;
+  if (file === undefined || bytes === undefined || num === undefined) {
+    return undefined;
+  }
+
+  // rg reports submatches as byte offsets, which need converting to character offsets. Only the
+  // first line of a multiline match is shown.
+  const text = bytes.toString('utf8').split(/\r?\n/)[0];
+  if (text.length >= MAX_DESC_LENGTH) {
+    return undefined;
+  }
+  const column = (offset: number) => Math.min(bytes.subarray(0, offset).toString('utf8').length, text.length);
+  const indent = text.length - text.trimStart().length;
+  const description = text.trim();
+  const submatches = (message.data.submatches ?? [])
+    .map(({ start, end }) => [column(start), column(end)] as [number, number])
+    .filter(([start, end]) => end > start);
+  const highlights = submatches
+    .map(([start, end]) => [Math.max(0, start - indent), Math.min(description.length, end - indent)] as [number, number])
+    .filter(([start, end]) => end > start);
+
+  const isMatch = message.type === 'match';
+  const [start, end] = submatches[0] ?? [0, 0];
+  return {
+    label: isMatch ? `${path.basename(file)} : ${num}` : `\u00a0\u00a0\u00a0\u00a0${num}`,
+    description,
+    detail: isMatch ? path.resolve(dir, file) : undefined,
+    file: path.resolve(dir, file),
+    num,
+    range: new vscode.Range(num - 1, start, num - 1, end),
+    highlights: isMatch ? { description: highlights } : undefined,
+    line: isMatch ? text : undefined,
+    submatches: isMatch ? submatches : undefined,
+    alwaysShow: true,
+  };
 }
 
-const isOption = (s: string) => /^--?[a-z]+/.test(s);
-const isWordQuoted = (s: string) => /^".*"/.test(s);
+function parseNameLine(line: string, dir: string): QuickPickItemWithLine {
+  const file = path.resolve(dir, line);
+  return {
+    label: path.basename(file),
+    description: '',
+    detail: file,
+    file,
+    num: 0,
+  };
+}
 
 class SearchBrowser {
   current: vscode.QuickPick<vscode.QuickPickItem>;
   searchFileNameOnly: boolean;
+  searchWorkspace = false;
+  searchOpenEditors = false;
+  includeIgnored = false;
+  /**
+   * Set while another prompt is showing, so hiding the search browser doesn't dispose it.
+   */
+  keepAlive = false;
   originalFileDirectory: string;
-  scrollBack: QuickPickItemWithLine[] = [];
+  /**
+   * How far back in the search history we are, or -1 when showing what the user typed.
+   */
+  historyIndex = -1;
+  draftValue = '';
   public quickPickButtons = [
     {
       iconPath: new vscode.ThemeIcon('symbol-folder'),
@@ -110,9 +268,31 @@ class SearchBrowser {
       iconPath: new vscode.ThemeIcon('symbol-keyword'),
       tooltip: 'Search file content',
     },
+    {
+      iconPath: new vscode.ThemeIcon('exclude'),
+      tooltip: 'Include ignored and hidden files',
+    },
+    {
+      iconPath: new vscode.ThemeIcon('list-selection'),
+      tooltip: 'Choose search scopes',
+    },
+    {
+      iconPath: new vscode.ThemeIcon('replace-all'),
+      tooltip: 'Replace matches',
+    },
+    {
+      iconPath: new vscode.ThemeIcon('output'),
+      tooltip: 'Export results',
+    },
   ] as vscode.QuickInputButton[];
   quickPickValue: string = '';
-  currentProcess?: cp.ChildProcess;
+  lastQuery?: SearchQuery;
+  currentProcesses: cp.ChildProcess[] = [];
+  generation = 0;
+  /**
+   * Whether we've already told the user rg can't be found, which we only do once.
+   */
+  reportedRgError = false;
 
 
   constructor(public dirs: string[], opts?: {
@@ -125,12 +305,11 @@ class SearchBrowser {
     this.searchFileNameOnly = opts?.searchFileNameOnly !== undefined ? opts?.searchFileNameOnly : true;
 
     const quickPick = vscode.window.createQuickPick();
-    quickPick.placeholder = "Please enter a search term";
+    quickPick.placeholder = "Search, eg. useState ext:tsx -path:test, or add rg flags after --";
     quickPick.matchOnDescription = true;
     // quickPick.ignoreFocusOut = true;
-    quickPick.items = this.scrollBack;
     quickPick.buttons = this.quickPickButtons;
-    quickPick.title = 'Searching in ' + this.dirs[0];
+    quickPick.title = this.scopeTitle();
 
     quickPick.show();
     this.current = quickPick;
@@ -142,237 +321,419 @@ class SearchBrowser {
     this.current.onDidTriggerButton(this.onDidTriggerButton.bind(this));
 
     this.current.onDidHide(() => {
+      if (this.keepAlive) {
+        return;
+      }
       this.setContext(false);
       this.dispose();
     });
   }
 
-  async fetchItemsSearchContent(
-    command: string,
-    dir: string,
-  ): Promise<QuickPickItemWithLine[]> {
-    if (this.currentProcess) {
-      this.currentProcess?.kill('SIGTERM');
-      this.currentProcess = undefined;
-    }
-
+  /**
+   * Run rg with `args` in `dir`, calling `onLine` with each line of output as soon as it arrives.
+   * The arguments go straight to rg, without a shell in between, so they need no quoting.
+   *
+   * Resolves when the process exits, and rejects with whatever rg printed to stderr if it failed.
+   * A process which was killed because the search was cancelled resolves quietly.
+   */
+  runSearch(rgPath: string, args: string[], dir: string, onLine: (line: string) => void): Promise<void> {
     return new Promise((resolve, reject) => {
       if (dir === "") {
         reject(new Error("Can't parse dir ''"));
+        return;
       }
-      this.currentProcess = cp.exec(
-        command,
-        { cwd: dir, maxBuffer: MAX_BUF_SIZE },
-        (err, stdout, stderr) => {
-          if (stderr) {
-            reject(new Error(stderr));
-          }
-          const lines = stdout.split(/\n/).filter((l) => l !== "");
-          if (!lines.length) {
-            resolve([]);
-          }
-          resolve(
-            lines
-              .map((line) => {
-                const [fullPath, num, ...desc] = line.split(":");
-                const description = desc.join(":").trim();
-                return {
-                  fullPath,
-                  num: Number(num),
-                  line,
-                  description,
-                };
-              })
-              .filter(
-                ({ description, num }) =>
-                  description.length < MAX_DESC_LENGTH && !!num,
-              )
-              .map(({ fullPath, num, line, description }) => {
-                const path = fullPath.split("/");
-                return {
-                  label: `${path[path.length - 1]} : ${num}`,
-                  description,
-                  detail: dir + fullPath.substring(1, fullPath.length),
-                  num,
-                };
-              }),
-          );
-        },
-      );
+      const child = cp.spawn(rgPath, args, { cwd: dir });
+      this.currentProcesses.push(child);
+
+      let pending = '';
+      let stderr = '';
+      child.stdout.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => {
+        const lines = (pending + chunk).split(/\r?\n/);
+        pending = lines.pop() ?? '';
+        lines.filter((l) => l !== "").forEach(onLine);
+      });
+      child.stderr.setEncoding('utf8');
+      child.stderr.on('data', (chunk: string) => {
+        stderr += chunk;
+      });
+      child.on('error', reject);
+      child.on('close', (code, signal) => {
+        if (pending !== "") {
+          onLine(pending);
+        }
+        // rg exits with 1 when nothing matched, which isn't an error.
+        if (signal === null && code !== 0 && code !== 1 && stderr) {
+          console.log(`rg error: ${stderr}`);
+          reject(new Error(stderr));
+        } else {
+          resolve();
+        }
+      });
     });
   }
 
-  async fetchItemsSearchName(
-    command: string,
-    dir: string,
-  ): Promise<QuickPickItemWithLine[]> {
-    if (this.currentProcess) {
-      this.currentProcess?.kill('SIGTERM');
-      this.currentProcess = undefined;
+  cancelSearch() {
+    this.currentProcesses.forEach((child) => child.kill('SIGTERM'));
+    this.currentProcesses = [];
+  }
+
+  /**
+   * The rg flags which make a search skip dotfiles with `file-browser.hideDotfiles`. rg skips
+   * files in `.gitignore` by itself; the rest of what `file-browser.hideIgnoredFiles` hides is
+   * left out of the results by [[ignoredFiles]].
+   */
+  ignoreArgs(): string[] {
+    if (this.includeIgnored) {
+      return ['--no-ignore', '--hidden'];
     }
+    return config<boolean>(ConfigItem.HideDotfiles) ? [] : ['--hidden'];
+  }
 
-    return new Promise((resolve, reject) => {
-      if (dir === "") {
-        reject(new Error("Can't parse dir ''"));
-      }
-      this.currentProcess = cp.exec(
-        command,
-        { cwd: dir, maxBuffer: MAX_BUF_SIZE },
-        (err, stdout, stderr) => {
-          if (stderr) {
-            console.log(`rg error: ${stderr}`);
-            reject(new Error(stderr));
-            // returning here crashes extension
-            // return;
-          }
-          const lines = stdout.split(/\n/).filter((l) => l !== "");
-          if (!lines.length) {
-            resolve([]);
-            // return;
-          }
-          resolve(
-            lines
-              .map((line) => {
-                const path = line.split("/");
-
-                return {
-                  label: `${path[path.length - 1]}`,
-                  fullPath: line,
-                  description: '',
-                  detail: dir + line.substring(1, line.length),
-                  num: 0,
-                };
-              })
-          );
-        },
-      );
-    });
+  /**
+   * A test for the results to leave out because the file browser hides them with
+   * `file-browser.hideIgnoredFiles`, so both hide the same files, or `undefined`
+   * when nothing is left out.
+   */
+  ignoredFiles(): ((file: string) => Promise<boolean>) | undefined {
+    if (this.includeIgnored || !config<boolean>(ConfigItem.HideIgnoreFiles)) {
+      return undefined;
+    }
+    const test = ignoreTest();
+    return (file) => test(new Path(vscode.Uri.file(file)));
+  }
+
+  scopeTitle(): string {
+    if (this.dirs.length === 1 && !this.searchOpenEditors) {
+      return 'Searching in ' + this.dirs[0];
+    }
+    return 'Searching in ' + describeScopes({ folders: this.dirs, openEditors: this.searchOpenEditors });
   }
 
   async updateSearch(value: string) {
     this.quickPickValue = value;
-    this.current.title = 'Searching in ' + this.dirs[0];
+    this.current.title = this.scopeTitle();
+    this.cancelSearch();
+    const generation = ++this.generation;
 
     if (!value || value === "") {
+      this.current.busy = false;
       return;
     }
-    let query = value.split(/\s/).reduce((acc, curr, index) => {
-      if (index === 0 || isOption(curr) || isOption(acc[acc.length - 1])) {
-        if (!isWordQuoted(curr) && !isOption(curr)) {
-          acc.push("-i", curr); // add case insensitive flag
-          return acc;
+    const parsed = parseQuery(value).andThen((query) => {
+      if (!this.searchFileNameOnly && query.pattern === '') {
+        return Err(new Error("Enter something to search for."));
+      }
+      return Ok(query);
+    });
+    const query = parsed.unwrap();
+    if (query === undefined) {
+      parsed.ifErr((error) => (this.current.title = `Invalid search: ${error.message}`));
+      this.current.busy = false;
+      return;
+    }
+    this.lastQuery = query;
+
+    const rgPathResult = getRgPath();
+    const rgPath = rgPathResult.unwrap();
+    if (rgPath === undefined) {
+      rgPathResult.ifErr((error) => {
+        this.current.title = `Can't search: ${error.message}`;
+        this.current.busy = false;
+        if (!this.reportedRgError) {
+          this.reportedRgError = true;
+          showRgError(error);
         }
-        acc.push(curr.replace(/"/g, "")); // remove quotes
-        return acc;
+      });
+      return;
+    }
+    let args = ['--files', ...queryFileArgs(query)];
+    let matchesFileName = (file: string) => true;
+    if (this.searchFileNameOnly) {
+      const regexpResult = queryRegExp(query);
+      const regexp = regexpResult.unwrap();
+      if (regexp === undefined) {
+        regexpResult.ifErr((error) => (this.current.title = `Invalid search: ${error.message}`));
+        return;
       }
-      acc[acc.length - 1] = acc[acc.length - 1] + ` ${curr}`;
-      return acc;
-    }, [] as string[]);
+      matchesFileName = (file: string) => regexp.test(file);
+    } else {
+      const contextLines = config<number>(ConfigItem.GrepContextLines) ?? 0;
+      // `-e` keeps a pattern starting with a dash from being read as a flag.
+      args = ["--json", "--context", String(contextLines), ...queryArgs(query), "-e", query.pattern];
+    }
 
-    let quoteSearch = quote([getRgPath(), '--files', '.']) + ' | ' + quote([getRgPath(),  ...query]);
-    if (!this.searchFileNameOnly) {
-      quoteSearch = quote([getRgPath(), "-n", ...query, "."]);
+    // Results are shown in batches as they stream in, rather than all at once when rg is done.
+    const maxResults = config<number>(ConfigItem.GrepMaxResults) ?? DEFAULT_MAX_RESULTS;
+    const results: QuickPickItemWithLine[] = [];
+    let flushTimer: NodeJS.Timeout | undefined;
+    const flush = () => {
+      flushTimer = undefined;
+      if (generation === this.generation) {
+        this.current.items = [...results];
+      }
+    };
+    // Checking whether a file is ignored can take a moment, so the checks run side by side and
+    // results are added as they pass. Lines from one folder wait for the same lookup of its rules,
+    // so they keep their order.
+    const isIgnored = this.ignoredFiles();
+    const checks = new Set<Promise<void>>();
+    const onLine = (dir: string, skipIgnored: boolean) => (line: string) => {
+      if (generation !== this.generation || results.length >= maxResults) {
+        return;
+      }
+      if (this.searchFileNameOnly && !matchesFileName(line)) {
+        return;
+      }
+      const item = this.searchFileNameOnly ? parseNameLine(line, dir) : parseContentLine(line, dir);
+      if (item === undefined) {
+        return;
+      }
+      if (!skipIgnored || isIgnored === undefined || item.file === undefined) {
+        addItem(item);
+        return;
+      }
+      const check: Promise<void> = isIgnored(item.file)
+        .then((ignored) => !ignored && addItem(item), () => addItem(item))
+        .then(() => {
+          checks.delete(check);
+        });
+      checks.add(check);
+    };
+    const addItem = (item: QuickPickItemWithLine) => {
+      if (generation !== this.generation || results.length >= maxResults) {
+        return;
+      }
+      results.push(item);
+      if (results.length >= maxResults) {
+        this.cancelSearch();
+        this.current.title = `${this.scopeTitle()} (showing the first ${maxResults} results)`;
+      }
+      flushTimer ??= setTimeout(flush, FLUSH_INTERVAL);
+    };
+
+    // Folders are searched from inside, while open editors are passed to rg by their full paths.
+    const targets = this.dirs.map((dir) => ({ cwd: dir, paths: ['.'], ignoreArgs: this.ignoreArgs(), skipIgnored: true }));
+    const editorFiles = this.searchOpenEditors ? openEditorFiles() : [];
+    if (editorFiles.length > 0) {
+      targets.push({ cwd: path.dirname(editorFiles[0]), paths: editorFiles, ignoreArgs: [], skipIgnored: false });
     }
 
-    this.current.items = (
-      await Promise.allSettled(
-        this.dirs.map((dir) => this.searchFileNameOnly ? this.fetchItemsSearchName(quoteSearch, dir) : this.fetchItemsSearchContent(quoteSearch, dir) ),
-      )
-    )
-      .map((result) => {
-        if (result.status === "rejected") {
-          vscode.window.showErrorMessage(result.reason);
-        }
-        return result;
-      })
-      .filter((result) => result.status === "fulfilled")
-      .map((result) => {
-        if (result.status === "fulfilled") {
-          return result.value;
-        }
-        return [];
-      })
-      .flat();
+    this.current.busy = true;
+    const outcomes = await Promise.allSettled(
+      targets.map(({ cwd, paths, ignoreArgs, skipIgnored }) =>
+        this.runSearch(rgPath, [...ignoreArgs, ...args, '--', ...paths], cwd, onLine(cwd, skipIgnored)),
+      ),
+    );
+    if (generation !== this.generation) {
+      return;
+    }
+    outcomes.forEach((result) => {
+      if (result.status === "rejected") {
+        vscode.window.showErrorMessage(result.reason.message);
+      }
+    });
+    await Promise.all([...checks]);
+    if (generation !== this.generation) {
+      return;
+    }
+    if (flushTimer !== undefined) {
+      clearTimeout(flushTimer);
+    }
+    flush();
+    this.current.busy = false;
   }
 
   async onDidTriggerButton(e: vscode.QuickInputButton) {
     if (e.tooltip === 'Search workspace') {
-      if ((e.iconPath as vscode.ThemeIcon).id !== 'check') {
-        this.dirs = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath) || [];
-
-        this.quickPickButtons[0] = {
-          iconPath: new vscode.ThemeIcon('check'),
-          tooltip: e.tooltip,
-        } as vscode.QuickInputButton;
-      } else {
-        this.dirs = [this.originalFileDirectory];
-
-        this.quickPickButtons[0] = {
-          iconPath: new vscode.ThemeIcon('symbol-folder'),
-          tooltip: e.tooltip,
-        } as vscode.QuickInputButton;
-      }
-      this.current.buttons = this.quickPickButtons;
+      this.setSearchWorkspace((e.iconPath as vscode.ThemeIcon).id !== 'check');
       this.updateSearch(this.current.value);
     } else if (e.tooltip === 'Search file content') {
-      if ((e.iconPath as vscode.ThemeIcon).id !== 'check') {
-        this.searchFileNameOnly = false;
-
-        this.quickPickButtons[1] = {
-          iconPath: new vscode.ThemeIcon('check'),
-          tooltip: e.tooltip,
-        } as vscode.QuickInputButton;
-      } else {
-        this.searchFileNameOnly = true;
-
-        this.quickPickButtons[1] = {
-          iconPath: new vscode.ThemeIcon('symbol-keyword'),
-          tooltip: e.tooltip,
-        } as vscode.QuickInputButton;
-      }
-      this.current.buttons = this.quickPickButtons;
+      this.setSearchContent((e.iconPath as vscode.ThemeIcon).id !== 'check');
+      this.updateSearch(this.current.value);
+    } else if (e.tooltip === 'Include ignored and hidden files') {
+      this.setIncludeIgnored((e.iconPath as vscode.ThemeIcon).id !== 'check');
       this.updateSearch(this.current.value);
+    } else if (e.tooltip === 'Choose search scopes') {
+      this.chooseScopes();
+    } else if (e.tooltip === 'Replace matches') {
+      this.replace();
+    } else if (e.tooltip === 'Export results') {
+      this.exportResults();
     }
   }
 
-  async onDidAccept() {
-    const item = this.current.selectedItems[0] as QuickPickItemWithLine;
-    if (!item) {
-      return;
+  setSearchWorkspace(on: boolean) {
+    this.searchWorkspace = on;
+    this.searchOpenEditors = false;
+    if (on) {
+      this.dirs = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath) || [];
+    } else {
+      this.dirs = [this.originalFileDirectory];
     }
+    this.quickPickButtons[0] = {
+      iconPath: new vscode.ThemeIcon(on ? 'check' : 'symbol-folder'),
+      tooltip: 'Search workspace',
+    } as vscode.QuickInputButton;
+    this.current.buttons = this.quickPickButtons;
+  }
+
+  setIncludeIgnored(on: boolean) {
+    this.includeIgnored = on;
+    this.quickPickButtons[2] = {
+      iconPath: new vscode.ThemeIcon(on ? 'check' : 'exclude'),
+      tooltip: 'Include ignored and hidden files',
+    } as vscode.QuickInputButton;
+    this.current.buttons = this.quickPickButtons;
+  }
+
+  /**
+   * Ask which folders to search, then search them for what's already typed.
+   */
+  async chooseScopes() {
+    this.keepAlive = true;
+    const scopes = await pickScopes(
+      this.originalFileDirectory,
+      { folders: this.dirs, openEditors: this.searchOpenEditors },
+      searchPins,
+    );
+    this.keepAlive = false;
+    scopes.ifSome((scopes) => {
+      this.dirs = scopes.folders;
+      this.searchOpenEditors = scopes.openEditors;
+      this.searchWorkspace = false;
+      this.quickPickButtons[0] = {
+        iconPath: new vscode.ThemeIcon('symbol-folder'),
+        tooltip: 'Search workspace',
+      } as vscode.QuickInputButton;
+      this.current.buttons = this.quickPickButtons;
+    });
+    this.current.show();
+    this.setContext(true);
+    this.updateSearch(this.current.value);
+  }
+
+  setSearchContent(on: boolean) {
+    this.searchFileNameOnly = !on;
+    this.quickPickButtons[1] = {
+      iconPath: new vscode.ThemeIcon(on ? 'check' : 'symbol-keyword'),
+      tooltip: 'Search file content',
+    } as vscode.QuickInputButton;
+    this.current.buttons = this.quickPickButtons;
+  }
 
-    if (item.description === "History") {
-      this.current.value = item.label;
+  /**
+   * Step through the search history, `delta` 1 going back to older searches. Stepping forward past
+   * the newest search gets back what the user had typed.
+   */
+  recallHistory(delta: 1 | -1) {
+    const entries = searchHistory.entries();
+    const index = this.historyIndex + delta;
+    if (index < -1 || index >= entries.length) {
       return;
     }
+    if (this.historyIndex === -1) {
+      this.draftValue = this.current.value;
+    }
+    this.historyIndex = index;
+    if (index === -1) {
+      this.showQuery(this.draftValue);
+      return;
+    }
+    const entry = entries[index];
+    this.setSearchContent(entry.mode === SearchMode.Content);
+    this.setSearchWorkspace(entry.scope === SearchScope.Workspace);
+    this.showQuery(entry.query);
+  }
 
-    // Create scrollback item to store history
-    const scrollBackItem = {
-      label: this.quickPickValue,
-      description: "History",
-      num: 0,
-    };
-    // Scrollback history is limited to 20 items
-    if (this.scrollBack.length > 20) {
-      // Remove oldest item
-      this.scrollBack.pop();
+  /**
+   * Put `value` in the search box and search for it. Changing the value searches by itself, but
+   * the mode or scope may have changed while the value hasn't.
+   */
+  showQuery(value: string) {
+    if (this.current.value === value) {
+      this.updateSearch(value);
+    } else {
+      this.current.value = value;
     }
-    this.scrollBack.unshift(scrollBackItem);
+  }
 
-    const { detail, num } = item;
-    const doc = await vscode.workspace.openTextDocument("" + detail);
-    await vscode.window.showTextDocument(doc);
-    if (!vscode.window.activeTextEditor) {
-      vscode.window.showErrorMessage("No active editor.");
+  rememberSearch() {
+    searchHistory.record(
+      this.quickPickValue,
+      this.searchFileNameOnly ? SearchMode.Name : SearchMode.Content,
+      this.searchWorkspace ? SearchScope.Workspace : SearchScope.Folder,
+    );
+  }
+
+  /**
+   * Keep the current results in a document, so they can be worked through after the search
+   * browser is closed. Context lines are left out.
+   */
+  async exportResults() {
+    const results = (this.current.items as QuickPickItemWithLine[])
+      .filter((item) => item.file !== undefined && (this.searchFileNameOnly || item.submatches !== undefined))
+      .map((item) => ({
+        file: item.file!,
+        range: this.searchFileNameOnly ? undefined : item.range,
+        text: item.line,
+      }));
+    if (results.length === 0) {
+      vscode.window.showInformationMessage("There are no results to export.");
       return;
     }
-    vscode.window.activeTextEditor.selection = new vscode.Selection(
-      ~~num,
-      0,
-      ~~num,
-      0,
+    const title = `"${this.quickPickValue}" in ${describeScopes({ folders: this.dirs, openEditors: this.searchOpenEditors })}`;
+    this.rememberSearch();
+    this.dispose();
+    await searchResults.export(results, title);
+  }
+
+  /**
+   * Replace the matches of the current content search, after asking for the replacement and
+   * showing a preview.
+   */
+  async replace() {
+    const matches = (this.current.items as QuickPickItemWithLine[]).filter(
+      (item) => item.file !== undefined && item.line !== undefined && item.submatches !== undefined,
     );
-    vscode.commands.executeCommand("cursorUp");
+    if (this.searchFileNameOnly || matches.length === 0) {
+      vscode.window.showInformationMessage("Search file content first, then replace the matches.");
+      return;
+    }
+    if (this.lastQuery === undefined) {
+      return;
+    }
+    const regexpResult = replaceRegExp(this.lastQuery);
+    const regexp = regexpResult.unwrap();
+    if (regexp === undefined) {
+      regexpResult.ifErr((error) => vscode.window.showErrorMessage(error.message));
+      return;
+    }
+    const search = this.quickPickValue;
+    this.rememberSearch();
+    this.dispose();
+    await replaceMatches(
+      regexp,
+      matches.map((item) => ({
+        file: item.file!,
+        line: item.num - 1,
+        text: item.line!,
+        submatches: item.submatches!,
+      })),
+      search,
+    );
+  }
+
+  async onDidAccept() {
+    const item = this.current.selectedItems[0] as QuickPickItemWithLine;
+    if (!item) {
+      return;
+    }
+
+    this.rememberSearch();
+    const { file, range } = item;
+    const doc = await vscode.workspace.openTextDocument("" + file);
+    await vscode.window.showTextDocument(doc, { selection: range });
   }
   setContext(state: boolean) {
     vscode.commands.executeCommand("setContext", "inSearchBrowser", state);
@@ -380,8 +741,8 @@ class SearchBrowser {
 
   dispose() {
     this.setContext(false);
-    this.currentProcess?.kill('SIGTERM');
-    this.currentProcess = undefined;
+    this.generation++;
+    this.cancelSearch();
     this.current.dispose();
   }
 }
@@ -399,6 +760,14 @@ export async function searchDirs(dirs: string[], opts?: {
 }
 
 export function initializeSearchDirs(context: vscode.ExtensionContext) {
+  searchHistory = new SearchHistory(context);
+  searchPins = new Pins(context);
+  searchResults = new SearchResults();
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(resultsScheme, searchResults),
+    vscode.languages.registerDocumentLinkProvider({ scheme: resultsScheme }, searchResults),
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand(
     "file-browser.grep.toggleSearchWorkspace",
@@ -414,4 +783,68 @@ export function initializeSearchDirs(context: vscode.ExtensionContext) {
       active?.onDidTriggerButton(active?.quickPickButtons[1]);
     },
   ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.replace",
+    async () => {
+      active?.replace();
+    },
+  ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.toggleIncludeIgnored",
+    async () => {
+      active?.onDidTriggerButton(active?.quickPickButtons[2]);
+    },
+  ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.chooseScopes",
+    async () => {
+      active?.chooseScopes();
+    },
+  ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.previousSearch",
+    async () => {
+      active?.recallHistory(1);
+    },
+  ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.nextSearch",
+    async () => {
+      active?.recallHistory(-1);
+    },
+  ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.exportResults",
+    async () => {
+      active?.exportResults();
+    },
+  ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.nextResult",
+    async () => {
+      searchResults.next();
+    },
+  ));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+    "file-browser.grep.previousResult",
+    async () => {
+      searchResults.previous();
+    },
+  ));
 }
\ No newline at end of file
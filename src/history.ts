@@ -0,0 +1,63 @@
+import * as vscode from "vscode";
+
+export enum SearchMode {
+    Name = "name",
+    Content = "content",
+}
+
+export enum SearchScope {
+    Folder = "folder",
+    Workspace = "workspace",
+}
+
+/**
+ * A search the user ran, with the mode and scope it ran in so recalling it runs the same search.
+ */
+export interface HistoryEntry {
+    query: string;
+    mode: SearchMode;
+    scope: SearchScope;
+    time: number;
+}
+
+const historyKey = "file-browser.searchHistory";
+const maxEntries = 100;
+
+/**
+ * Search history, kept across sessions. Workspace searches are remembered in the workspace state,
+ * so each workspace has its own, and folder searches in the global state.
+ */
+export class SearchHistory {
+    constructor(private context: vscode.ExtensionContext) {}
+
+    private state(scope: SearchScope): vscode.Memento {
+        return scope === SearchScope.Workspace ? this.context.workspaceState : this.context.globalState;
+    }
+
+    private get(scope: SearchScope): HistoryEntry[] {
+        return this.state(scope).get(historyKey, []);
+    }
+
+    /**
+     * All entries, most recent first.
+     */
+    entries(): HistoryEntry[] {
+        return [...this.get(SearchScope.Workspace), ...this.get(SearchScope.Folder)].sort(
+            (left, right) => right.time - left.time
+        );
+    }
+
+    /**
+     * Move a search to the top of the history, dropping earlier runs of the same search.
+     */
+    async record(query: string, mode: SearchMode, scope: SearchScope) {
+        if (query.trim() === "") {
+            return;
+        }
+        const entries = [
+            { query, mode, scope, time: Date.now() },
+            ...this.get(scope).filter((entry) => entry.query !== query || entry.mode !== mode),
+        ].slice(0, maxEntries);
+        await this.state(scope).update(historyKey, entries);
+    }
+}
@@ -0,0 +1,282 @@
+import * as vscode from "vscode";
+import { Uri } from "vscode";
+import * as OSPath from "path";
+
+import { Result, Ok, None, Option, Some } from "./rust";
+import { Path } from "./path";
+
+/**
+ * A single reversible file system operation.
+ *
+ * Deleted files aren't actually deleted, but moved into the journal's trash folder, so that they
+ * can be moved back. Likewise, undoing the creation of a file moves it into the trash, from where
+ * it can be moved back if the creation is redone.
+ */
+type Operation =
+    | { type: "rename"; from: Uri; to: Uri }
+    | { type: "delete"; uri: Uri; trash: Uri }
+    | { type: "create"; uri: Uri; trash: Uri };
+
+interface Entry {
+    description: string;
+    operations: Operation[];
+}
+
+const maxEntries = 50;
+
+async function exists(uri: Uri): Promise<boolean> {
+    return (await new Path(uri).stat()).isOk();
+}
+
+/**
+ * Move a file or folder, falling back to copying and deleting if the file system can't rename
+ * between the two locations, such as when the trash lives on a different device.
+ */
+async function relocate(from: Uri, to: Uri) {
+    await vscode.workspace.fs.createDirectory(new Path(to).parent().uri);
+    if ((await Result.try(vscode.workspace.fs.rename(from, to))).isErr()) {
+        await vscode.workspace.fs.copy(from, to);
+        await vscode.workspace.fs.delete(from, { recursive: true });
+    }
+}
+
+/**
+ * Find the outermost ancestor of `uri` (or `uri` itself) which doesn't exist yet, which is what
+ * creating `uri` will actually create.
+ */
+async function outermostMissing(uri: Uri): Promise<Uri> {
+    let created = uri;
+    let parent = new Path(uri).parent();
+    while (parent.id !== new Path(created).id && !(await exists(parent.uri))) {
+        created = parent.uri;
+        parent = parent.parent();
+    }
+    return created;
+}
+
+/**
+ * Performs file system operations on behalf of a [[Journal]], recording them as it goes.
+ *
+ * Every method throws if the operation fails. Operations which succeeded before the failure are
+ * still recorded.
+ */
+export class Transaction {
+    operations: Operation[] = [];
+
+    constructor(private journal: Journal) {}
+
+    async rename(from: Uri, to: Uri, overwrite: boolean = false) {
+        if (overwrite && (await exists(to))) {
+            await this.delete(to);
+        }
+        await vscode.workspace.fs.rename(from, to);
+        this.operations.push({ type: "rename", from, to });
+    }
+
+    async copy(from: Uri, to: Uri, overwrite: boolean = false) {
+        if (overwrite && (await exists(to))) {
+            await this.delete(to);
+        }
+        const created = await outermostMissing(to);
+        await vscode.workspace.fs.copy(from, to);
+        this.operations.push({ type: "create", uri: created, trash: this.journal.trashUri(created) });
+    }
+
+    async delete(uri: Uri) {
+        const trash = this.journal.trashUri(uri);
+        await relocate(uri, trash);
+        this.operations.push({ type: "delete", uri, trash });
+    }
+
+    async createDirectory(uri: Uri) {
+        const created = await outermostMissing(uri);
+        await vscode.workspace.fs.createDirectory(uri);
+        this.operations.push({ type: "create", uri: created, trash: this.journal.trashUri(created) });
+    }
+
+    async writeFile(uri: Uri, content: Uint8Array) {
+        if (await exists(uri)) {
+            await this.delete(uri);
+        }
+        const created = await outermostMissing(uri);
+        await vscode.workspace.fs.writeFile(uri, content);
+        this.operations.push({ type: "create", uri: created, trash: this.journal.trashUri(created) });
+    }
+}
+
+/**
+ * A history of file operations performed through the file browser, which can be walked back and
+ * forth with [[Journal.undo]] and [[Journal.redo]].
+ */
+export class Journal {
+    private undoStack: Entry[] = [];
+    private redoStack: Entry[] = [];
+    private counter = 0;
+
+    constructor(private trashRoot: Uri) {}
+
+    /**
+     * Empty this session's trash folder. Because the journal itself isn't persisted, nothing in
+     * there can be restored once the session is over.
+     */
+    async clearTrash() {
+        await Result.try(vscode.workspace.fs.delete(this.trashRoot, { recursive: true }));
+    }
+
+    trashUri(uri: Uri): Uri {
+        this.counter += 1;
+        return Uri.joinPath(
+            this.trashRoot,
+            `${Date.now()}-${this.counter}`,
+            OSPath.posix.basename(uri.path)
+        );
+    }
+
+    /**
+     * Run `body` with a [[Transaction]], and record whatever it did as a single undoable entry.
+     */
+    async run(
+        description: string,
+        body: (tx: Transaction) => Promise<void>
+    ): Promise<Result<void, Error>> {
+        const tx = new Transaction(this);
+        const result = await Result.try(body(tx));
+        if (tx.operations.length > 0) {
+            this.redoStack.splice(0).forEach((entry) => this.discard(entry, false));
+            this.undoStack.push({ description, operations: tx.operations });
+            if (this.undoStack.length > maxEntries) {
+                this.undoStack.splice(0, this.undoStack.length - maxEntries)
+                    .forEach((entry) => this.discard(entry, true));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Revert the most recent entry.
+     *
+     * Returns the description of the reverted entry, or [[None]] if there was nothing to undo.
+     */
+    async undo(): Promise<Result<Option<string>, Error>> {
+        const entry = this.undoStack.pop();
+        if (entry === undefined) {
+            return Ok(None);
+        }
+        const result = await Result.try(this.revert(entry));
+        if (result.isOk()) {
+            this.redoStack.push(entry);
+        }
+        return result.map(() => Some(entry.description));
+    }
+
+    /**
+     * Reapply the most recently undone entry.
+     *
+     * Returns the description of the reapplied entry, or [[None]] if there was nothing to redo.
+     */
+    async redo(): Promise<Result<Option<string>, Error>> {
+        const entry = this.redoStack.pop();
+        if (entry === undefined) {
+            return Ok(None);
+        }
+        const result = await Result.try(this.apply(entry));
+        if (result.isOk()) {
+            this.undoStack.push(entry);
+        }
+        return result.map(() => Some(entry.description));
+    }
+
+    private async apply(entry: Entry) {
+        for (const operation of entry.operations) {
+            switch (operation.type) {
+                case "rename":
+                    await relocate(operation.from, operation.to);
+                    break;
+                case "delete":
+                    await relocate(operation.uri, operation.trash);
+                    break;
+                case "create":
+                    await relocate(operation.trash, operation.uri);
+                    break;
+            }
+        }
+    }
+
+    private async revert(entry: Entry) {
+        for (const operation of [...entry.operations].reverse()) {
+            switch (operation.type) {
+                case "rename":
+                    await relocate(operation.to, operation.from);
+                    break;
+                case "delete":
+                    await relocate(operation.trash, operation.uri);
+                    break;
+                case "create":
+                    await relocate(operation.uri, operation.trash);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Remove whatever an entry which is about to be forgotten has left in the trash. For an entry
+     * which is currently applied, that's what it deleted; for an undone entry, what it created.
+     */
+    private discard(entry: Entry, applied: boolean) {
+        for (const operation of entry.operations) {
+            if (operation.type === (applied ? "delete" : "create")) {
+                Result.try(
+                    vscode.workspace.fs.delete(Uri.joinPath(operation.trash, ".."), { recursive: true })
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Report the outcome of [[Journal.undo]] or [[Journal.redo]] to the user.
+ */
+export function reportJournalResult(verb: string, result: Result<Option<string>, Error>) {
+    result.match(
+        (description) =>
+            description.match(
+                (description) => vscode.window.showInformationMessage(`${verb}: ${description}`),
+                () => vscode.window.showInformationMessage(`Nothing to ${verb.toLowerCase()}.`)
+            ),
+        (error) => vscode.window.showErrorMessage(`${verb} failed: ${error.message}`)
+    );
+}
+
+/**
+ * The folder deleted files are moved to, until the session ends. Each session gets its own, as
+ * windows without a folder open all share the global storage.
+ */
+export function trashFolder(context: vscode.ExtensionContext): Uri {
+    return Uri.joinPath(trashRoot(context), vscode.env.sessionId);
+}
+
+function trashRoot(context: vscode.ExtensionContext): Uri {
+    return Uri.joinPath(context.storageUri ?? context.globalStorageUri, "trash");
+}
+
+const staleTrashAge = 24 * 60 * 60 * 1000;
+
+/**
+ * Delete the trash folders sessions left behind because they never got to empty them, eg. after a
+ * crash. Other windows may still be using theirs, so only folders which haven't changed for a day
+ * are deleted.
+ */
+export async function clearStaleTrash(context: vscode.ExtensionContext) {
+    const root = trashRoot(context);
+    const folders = (await Result.try(vscode.workspace.fs.readDirectory(root))).unwrap() ?? [];
+    for (const [name] of folders) {
+        if (name === vscode.env.sessionId) {
+            continue;
+        }
+        const folder = Uri.joinPath(root, name);
+        const stat = (await Result.try(vscode.workspace.fs.stat(folder))).unwrap();
+        if (stat !== undefined && Date.now() - stat.mtime > staleTrashAge) {
+            await Result.try(vscode.workspace.fs.delete(folder, { recursive: true }));
+        }
+    }
+}
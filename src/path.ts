@@ -18,29 +18,7 @@ export class Path {
         if (filePath.length === 0) {
             filePath = '/';
         }
-        if (filePath.startsWith('~')) {
-            filePath = filePath.replace('~', OS.homedir());
-        }
-        if (filePath.startsWith('@')) {
-            const workspaceFolder =
-                vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
-            if (workspaceFolder) {
-                filePath = filePath.replace('@', workspaceFolder.uri.fsPath);
-            }
-        }
-        if (filePath.startsWith('$env:')) {
-            let envVarEnd = filePath.indexOf('/');
-            if (envVarEnd === -1) {
-                envVarEnd = filePath.length;
-            }
-            let envVarName = filePath.slice('$env:'.length, envVarEnd);
-            let configEnvVars = vscode.workspace.getConfiguration('file-browser').get('envVars') || {} as any;
-            if (configEnvVars[envVarName]) {
-                filePath = configEnvVars[envVarName] + filePath.slice(envVarEnd);
-            }
-        }
-
-        return new Path(Uri.file(filePath));
+        return new Path(Uri.file(expandPath(filePath)));
     }
 
     get uri(): Uri {
@@ -80,7 +58,7 @@ export class Path {
      * Test if the path is at its root.
      */
     atTop(): boolean {
-        return this.pathUri === Uri.joinPath(this.pathUri, "..");
+        return this.id === Uri.joinPath(this.pathUri, "..").toString(false);
     }
 
     /**
@@ -175,11 +153,93 @@ export function endsWithPathSeparator(value: string): Option<string> {
     return None;
 }
 
+/**
+ * Look up a variable used in a path: VS Code's own variables like `${workspaceFolder}` first, then
+ * the `file-browser.envVars` setting, then the environment.
+ */
+function lookUpVariable(name: string): string | undefined {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const document = vscode.window.activeTextEditor?.document;
+    const file = document !== undefined && document.uri.scheme === "file" ? document.uri.fsPath : undefined;
+    const [variable, argument] = name.split(":", 2);
+    switch (variable) {
+        case "workspaceFolder":
+            if (argument !== undefined) {
+                return folders.find((folder) => folder.name === argument)?.uri.fsPath;
+            }
+            return folders[0]?.uri.fsPath;
+        case "workspaceFolderBasename":
+            return folders[0]?.name;
+        case "userHome":
+            return OS.homedir();
+        case "file":
+            return file;
+        case "fileDirname":
+            return file !== undefined ? OSPath.dirname(file) : undefined;
+        case "fileBasename":
+            return file !== undefined ? OSPath.basename(file) : undefined;
+        case "env":
+            return argument !== undefined ? lookUpVariable(argument) : undefined;
+    }
+    const configEnvVars: { [name: string]: string } =
+        vscode.workspace.getConfiguration("file-browser").get("envVars") ?? {};
+    return configEnvVars[name] ?? process.env[name];
+}
+
+/**
+ * Find the home folder of `user`, assuming it lives next to ours.
+ */
+function homeOf(user: string): string {
+    const home = OS.homedir();
+    if (user === "" || user === OS.userInfo().username) {
+        return home;
+    }
+    return OSPath.join(OSPath.dirname(home), user);
+}
+
+/**
+ * Expand a path the way a shell would, and then some:
+ *
+ * - `$VAR`, `${VAR}` and `$env:VAR` anywhere in the path become the value of the environment
+ *   variable, or of the same name in `file-browser.envVars`, which takes precedence.
+ * - VS Code variables: `${workspaceFolder}`, `${workspaceFolder:name}`, `${workspaceFolderBasename}`,
+ *   `${userHome}`, `${file}`, `${fileDirname}` and `${fileBasename}`.
+ * - A leading `~` is your home folder, and `~user` someone else's.
+ * - A leading `@` is the first workspace folder, and `@name` the workspace folder called `name`.
+ *
+ * Variables which aren't set are left as they are.
+ */
+export function expandPath(value: string): string {
+    let path = value.replace(/\$(?:\{([\w:.-]+)\}|env:(\w+)|(\w+))/g, (match, braced, env, bare) => {
+        return lookUpVariable(braced ?? env ?? bare) ?? match;
+    });
+
+    const home = /^~([^/\\]*)/.exec(path);
+    if (home !== null) {
+        path = homeOf(home[1]) + path.slice(home[0].length);
+    }
+
+    const workspace = /^@([^/\\]*)/.exec(path);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (workspace !== null && folders.length > 0) {
+        const named = folders.find((folder) => folder.name === workspace[1]);
+        if (named !== undefined) {
+            path = named.uri.fsPath + path.slice(workspace[0].length);
+        } else {
+            path = OSPath.join(folders[0].uri.fsPath, path.slice(1));
+        }
+    }
+    return path;
+}
+
 /**
  * Given a list of file names, try to find one of them in the provided path,
  * then step up one folder at a time and repeat the search until we find something
  * or run out of parents.
  *
+ * By default only files are found; pass `accept` to decide what counts, eg. to find a `.git`
+ * folder.
+ *
  * If no file is found, we return [[FileSystemError.FileNotFound]].
  *
  * If `uri` points to a file, we immediately return [[FileSystemError.FileNotADirectory]].
@@ -188,7 +248,8 @@ export function endsWithPathSeparator(value: string): Option<string> {
  */
 export async function lookUpwards(
     uri: Uri,
-    files: string[]
+    files: string[],
+    accept: (path: Path) => Promise<boolean> = (path) => path.isFile()
 ): Promise<Result<Uri, FileSystemError>> {
     const path = new Path(uri);
     if (!(await path.isDir())) {
@@ -197,7 +258,7 @@ export async function lookUpwards(
     while (true) {
         for (const file of files) {
             let filePath = path.append(file);
-            if (await filePath.isFile()) {
+            if (await accept(filePath)) {
                 return Ok(filePath.uri);
             }
         }
@@ -0,0 +1,318 @@
+import * as vscode from "vscode";
+import { FileType } from "vscode";
+
+import { Result, Ok, Err, None, Option, Some } from "./rust";
+import { Path } from "./path";
+
+/**
+ * Where a pin is stored: globally, so it shows up everywhere, or in the workspace state, so it
+ * only shows up in the current workspace.
+ */
+export enum PinScope {
+    Global = "global",
+    Workspace = "workspace",
+}
+
+/**
+ * A pin as stored in `globalState` or `workspaceState`.
+ */
+export interface PinnedItem {
+    fsPath: string;
+    type: FileType;
+    group?: string;
+    alias?: string;
+    /**
+     * A number from 1 to 9 which jumps straight to the pin when typed as `@1`.
+     */
+    index?: number;
+}
+
+export interface Pin extends PinnedItem {
+    scope: PinScope;
+}
+
+const pinnedKey = "file-browser.pinned";
+const maxIndex = 9;
+
+export class Pins {
+    constructor(private context: vscode.ExtensionContext) {}
+
+    private state(scope: PinScope): vscode.Memento {
+        return scope === PinScope.Global ? this.context.globalState : this.context.workspaceState;
+    }
+
+    private get(scope: PinScope): PinnedItem[] {
+        return this.state(scope).get(pinnedKey, []);
+    }
+
+    private async set(scope: PinScope, pins: PinnedItem[]) {
+        await this.state(scope).update(pinnedKey, pins);
+    }
+
+    /**
+     * All pins, workspace pins first, each scope in the order the user has arranged them.
+     */
+    all(): Pin[] {
+        return [PinScope.Workspace, PinScope.Global].reduce(
+            (pins: Pin[], scope) => pins.concat(this.get(scope).map((pin) => ({ ...pin, scope }))),
+            []
+        );
+    }
+
+    groups(): string[] {
+        const groups: string[] = [];
+        for (const pin of this.all()) {
+            if (pin.group !== undefined && !groups.includes(pin.group)) {
+                groups.push(pin.group);
+            }
+        }
+        return groups;
+    }
+
+    find(path: Path): Option<Pin> {
+        return new Option(this.all().find((pin) => pin.fsPath === path.fsPath));
+    }
+
+    /**
+     * Find a pin by its keyboard index or, failing that, its alias.
+     */
+    lookup(key: string): Option<Pin> {
+        const pins = this.all();
+        if (/^\d+$/.test(key)) {
+            const index = Number(key);
+            const pin = pins.find((pin) => pin.index === index);
+            if (pin !== undefined) {
+                return Some(pin);
+            }
+        }
+        return new Option(
+            pins.find((pin) => pin.alias !== undefined && pin.alias.toLowerCase() === key.toLowerCase())
+        );
+    }
+
+    /**
+     * The lowest keyboard index not yet taken, if there is one.
+     */
+    freeIndex(): number | undefined {
+        const taken = this.all().map((pin) => pin.index);
+        for (let index = 1; index <= maxIndex; index++) {
+            if (!taken.includes(index)) {
+                return index;
+            }
+        }
+        return undefined;
+    }
+
+    async add(path: Path, scope: PinScope, options: { group?: string; alias?: string } = {}) {
+        if (this.find(path).isSome()) {
+            return;
+        }
+        const pin: PinnedItem = {
+            fsPath: path.fsPath,
+            type: (await path.isDir()) ? FileType.Directory : FileType.File,
+            group: options.group,
+            alias: options.alias,
+            index: this.freeIndex(),
+        };
+        await this.set(scope, [...this.get(scope), pin]);
+    }
+
+    async remove(pin: Pin) {
+        await this.set(
+            pin.scope,
+            this.get(pin.scope).filter((other) => other.fsPath !== pin.fsPath)
+        );
+    }
+
+    async edit(pin: Pin, changes: Partial<PinnedItem>) {
+        await this.set(
+            pin.scope,
+            this.get(pin.scope).map((other) => (other.fsPath === pin.fsPath ? { ...other, ...changes } : other))
+        );
+    }
+
+    /**
+     * Swap a pin with its neighbour in the same group, in the direction of `delta`.
+     */
+    async move(pin: Pin, delta: -1 | 1) {
+        const pins = this.get(pin.scope);
+        const from = pins.findIndex((other) => other.fsPath === pin.fsPath);
+        let to = from + delta;
+        while (to >= 0 && to < pins.length && pins[to].group !== pin.group) {
+            to += delta;
+        }
+        if (from === -1 || to < 0 || to >= pins.length) {
+            return;
+        }
+        [pins[from], pins[to]] = [pins[to], pins[from]];
+        await this.set(pin.scope, pins);
+    }
+
+    export(): string {
+        return JSON.stringify(
+            { [PinScope.Global]: this.get(PinScope.Global), [PinScope.Workspace]: this.get(PinScope.Workspace) },
+            null,
+            4
+        );
+    }
+
+    /**
+     * Merge pins exported with [[Pins.export]] into the current ones. Pins for paths which are
+     * already pinned are skipped, and keyboard indices which are already taken are dropped.
+     *
+     * Returns the number of pins added.
+     */
+    async import(json: string): Promise<Result<number, Error>> {
+        let data: any;
+        try {
+            data = JSON.parse(json);
+        } catch (error) {
+            return Err(new Error(`Not a valid JSON file: ${(error as Error).message}`));
+        }
+        if (typeof data !== "object" || data === null) {
+            return Err(new Error("Expected an object with `global` and `workspace` lists of pins."));
+        }
+        let added = 0;
+        for (const scope of [PinScope.Global, PinScope.Workspace]) {
+            const imported = data[scope];
+            if (imported === undefined) {
+                continue;
+            }
+            if (!Array.isArray(imported) || !imported.every((pin) => typeof pin?.fsPath === "string")) {
+                return Err(new Error(`Expected \`${scope}\` to be a list of pins with an \`fsPath\`.`));
+            }
+            const pins = this.get(scope);
+            for (const pin of imported as PinnedItem[]) {
+                if (this.find(new Path(vscode.Uri.file(pin.fsPath))).isSome() || pins.some((other) => other.fsPath === pin.fsPath)) {
+                    continue;
+                }
+                const taken = [...this.all(), ...pins].some((other) => other.index === pin.index);
+                pins.push({
+                    fsPath: pin.fsPath,
+                    type: pin.type === FileType.Directory ? FileType.Directory : FileType.File,
+                    group: typeof pin.group === "string" ? pin.group : undefined,
+                    alias: typeof pin.alias === "string" ? pin.alias : undefined,
+                    index: typeof pin.index === "number" && !taken ? pin.index : undefined,
+                });
+                added++;
+            }
+            await this.set(scope, pins);
+        }
+        return Ok(added);
+    }
+}
+
+/**
+ * Split pins into their groups, ungrouped pins first, then each group in the order it first
+ * appears.
+ */
+export function groupPins(pins: Pin[]): [string | undefined, Pin[]][] {
+    const groups: [string | undefined, Pin[]][] = [[undefined, []]];
+    for (const pin of pins) {
+        let group = groups.find(([name]) => name === pin.group);
+        if (group === undefined) {
+            group = [pin.group, []];
+            groups.push(group);
+        }
+        group[1].push(pin);
+    }
+    return groups.filter(([, pins]) => pins.length > 0);
+}
+
+export function pinLabel(pin: Pin): string {
+    const icon = pin.type === FileType.Directory ? "$(folder-opened)" : "$(file)";
+    const index = pin.index !== undefined ? `[${pin.index}] ` : "";
+    return `${icon} ${index}${pin.alias ?? pin.fsPath}`;
+}
+
+export function pinDescription(pin: Pin): string {
+    const parts = [];
+    if (pin.alias !== undefined) {
+        parts.push(pin.fsPath);
+    }
+    if (pin.scope === PinScope.Workspace) {
+        parts.push("(workspace)");
+    }
+    return parts.join(" ");
+}
+
+/**
+ * Ask the user how to pin `path`: globally or for the workspace only, in which group, and with
+ * which alias. Returns [[None]] if the user cancelled.
+ */
+export async function promptPin(
+    pins: Pins
+): Promise<Option<{ scope: PinScope; group?: string; alias?: string }>> {
+    let scope = PinScope.Global;
+    if (vscode.workspace.workspaceFolders !== undefined) {
+        const scopes = [
+            { label: "$(globe) Pin everywhere", scope: PinScope.Global },
+            { label: "$(root-folder) Pin in this workspace only", scope: PinScope.Workspace },
+        ];
+        const picked = await vscode.window.showQuickPick(scopes, { title: "Pin scope" });
+        if (picked === undefined) {
+            return None;
+        }
+        scope = picked.scope;
+    }
+
+    const groups = [
+        { label: "$(circle-slash) No group", group: undefined as string | undefined },
+        ...pins.groups().map((group) => ({ label: `$(folder-library) ${group}`, group })),
+        { label: "$(add) New group...", group: "" },
+    ];
+    const pickedGroup = await vscode.window.showQuickPick(groups, { title: "Pin group" });
+    if (pickedGroup === undefined) {
+        return None;
+    }
+    let group = pickedGroup.group;
+    if (group === "") {
+        group = await vscode.window.showInputBox({ prompt: "Enter the name of the new group" });
+        if (!group) {
+            return None;
+        }
+    }
+
+    const alias = await vscode.window.showInputBox({
+        prompt: "Enter an alias for the pin, or leave it empty to show the path",
+    });
+    if (alias === undefined) {
+        return None;
+    }
+    return Some({ scope, group, alias: alias || undefined });
+}
+
+/**
+ * Ask the user for a new alias and keyboard index for `pin`, and apply them.
+ */
+export async function promptEditPin(pins: Pins, pin: Pin) {
+    const alias = await vscode.window.showInputBox({
+        prompt: "Enter an alias for the pin, or leave it empty to show the path",
+        value: pin.alias ?? "",
+    });
+    if (alias === undefined) {
+        return;
+    }
+    const index = await vscode.window.showInputBox({
+        prompt: `Enter a keyboard index from 1 to ${maxIndex} to jump to the pin by typing @1 and so on, or leave it empty for none`,
+        value: pin.index !== undefined ? String(pin.index) : "",
+        validateInput: (value) => {
+            if (value === "") {
+                return undefined;
+            }
+            const index = Number(value);
+            if (!Number.isInteger(index) || index < 1 || index > maxIndex) {
+                return `The index must be a number from 1 to ${maxIndex}.`;
+            }
+            const owner = pins.all().find((other) => other.index === index && other.fsPath !== pin.fsPath);
+            return owner !== undefined ? `${index} is already used by ${owner.alias ?? owner.fsPath}.` : undefined;
+        },
+    });
+    if (index === undefined) {
+        return;
+    }
+    await pins.edit(pin, {
+        alias: alias || undefined,
+        index: index === "" ? undefined : Number(index),
+    });
+}
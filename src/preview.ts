@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+import { Uri, FileType, ViewColumn } from "vscode";
+
+import { Result } from "./rust";
+import { Path } from "./path";
+import { listDirectory } from "./filter";
+
+export const previewScheme = "file-browser-preview";
+
+/**
+ * Build the [[Uri]] of the virtual document listing the contents of `path`.
+ *
+ * The real [[Uri]] goes in the query, so the preview works for any file system scheme, while the
+ * path is kept so the editor tab shows the folder name.
+ */
+function folderPreviewUri(path: Path): Uri {
+    return Uri.from({ scheme: previewScheme, path: path.uri.path, query: path.id });
+}
+
+/**
+ * Provides the virtual documents used to preview folders.
+ */
+export class FolderPreviewProvider implements vscode.TextDocumentContentProvider {
+    private changeEmitter = new vscode.EventEmitter<Uri>();
+    onDidChange = this.changeEmitter.event;
+
+    refresh(uri: Uri) {
+        this.changeEmitter.fire(uri);
+    }
+
+    async provideTextDocumentContent(uri: Uri): Promise<string> {
+        const path = new Path(Uri.parse(uri.query));
+        const items = await Result.try(listDirectory(path));
+        return items.match(
+            (items) => {
+                const lines = items.map((item) => {
+                    const isDir = ((item.fileType ?? 0) & FileType.Directory) === FileType.Directory;
+                    const name = isDir ? `${item.name}/` : item.name;
+                    return item.description ? `${name}  ${item.description}` : name;
+                });
+                return [path.fsPath, "", ...lines].join("\n");
+            },
+            (error) => `${path.fsPath}\n\nFailed to read folder: ${error.message}`
+        );
+    }
+}
+
+/**
+ * Shows the item under the cursor in a preview editor beside the file browser, without taking
+ * focus away from it.
+ */
+export class Preview {
+    private shown?: Uri;
+    private generation = 0;
+
+    constructor(private provider: FolderPreviewProvider) {}
+
+    async show(path: Path) {
+        const generation = ++this.generation;
+        const stat = (await path.stat()).unwrap();
+        if (stat === undefined || generation !== this.generation) {
+            return;
+        }
+        let uri = path.uri;
+        if ((stat.type & FileType.Directory) === FileType.Directory) {
+            uri = folderPreviewUri(path);
+            this.provider.refresh(uri);
+        }
+        const document = await Result.try(vscode.workspace.openTextDocument(uri));
+        // Binary files can't be opened as text documents, so they just don't get a preview.
+        document.ifOk((document) => {
+            if (generation !== this.generation) {
+                return;
+            }
+            this.shown = uri;
+            vscode.window.showTextDocument(document, {
+                viewColumn: ViewColumn.Beside,
+                preview: true,
+                preserveFocus: true,
+            });
+        });
+    }
+
+    /**
+     * Close the preview editor, unless the user has since turned it into a regular editor.
+     */
+    close() {
+        this.generation++;
+        const shown = this.shown;
+        this.shown = undefined;
+        if (shown === undefined) {
+            return;
+        }
+        const tabs = vscode.window.tabGroups.all
+            .reduce((tabs: vscode.Tab[], group) => tabs.concat(group.tabs), [])
+            .filter(
+                (tab) =>
+                    tab.isPreview &&
+                    tab.input instanceof vscode.TabInputText &&
+                    tab.input.uri.toString() === shown.toString()
+            );
+        if (tabs.length > 0) {
+            vscode.window.tabGroups.close(tabs, true);
+        }
+    }
+}
@@ -0,0 +1,225 @@
+import { Result, Ok, Err } from "./rust";
+
+export enum CaseMode {
+    Smart = "smart",
+    Sensitive = "sensitive",
+    Insensitive = "insensitive",
+}
+
+/**
+ * A search as typed into the search browser, eg. `useState ext:tsx -path:test`.
+ *
+ * Free text is the pattern, and these filters narrow the search down:
+ *
+ * - `ext:ts` or `ext:ts,tsx` only searches files with those extensions.
+ * - `path:src/` only searches files whose path contains `src/`, and `-path:test` leaves out files
+ *   whose path contains `test`. Values with glob characters are used as globs as they are.
+ * - `type:rust` only searches files of one of rg's file types, and `-type:rust` leaves them out.
+ * - `case:` or `case:sensitive` matches case exactly, `case:insensitive` ignores case, and
+ *   `case:smart`, the default, ignores case unless the pattern has capital letters.
+ * - `word:` only matches whole words.
+ * - `literal:` matches the pattern as plain text, and `regex:`, the default, as a regex. Either can
+ *   be followed by part of the pattern, eg. `literal:a.b`.
+ *
+ * Anything in double quotes is part of the pattern, and everything after a `--` is passed to rg as
+ * raw flags.
+ */
+export interface SearchQuery {
+    pattern: string;
+    caseMode: CaseMode;
+    wordRegexp: boolean;
+    fixedStrings: boolean;
+    globs: string[];
+    types: string[];
+    excludedTypes: string[];
+    rawArgs: string[];
+}
+
+interface Token {
+    text: string;
+    quoted: boolean;
+}
+
+/**
+ * Split on whitespace, except inside double quotes, which are removed.
+ */
+function tokenize(value: string): Token[] {
+    const tokens: Token[] = [];
+    let text = "";
+    let quoted = false;
+    let inQuotes = false;
+    let started = false;
+    for (const char of value) {
+        if (char === '"') {
+            inQuotes = !inQuotes;
+            quoted = true;
+            started = true;
+        } else if (/\s/.test(char) && !inQuotes) {
+            if (started) {
+                tokens.push({ text, quoted });
+            }
+            text = "";
+            quoted = false;
+            started = false;
+        } else {
+            text += char;
+            started = true;
+        }
+    }
+    if (started) {
+        tokens.push({ text, quoted });
+    }
+    return tokens;
+}
+
+function pathGlobs(value: string, exclude: boolean): string[] {
+    const prefix = exclude ? "!" : "";
+    if (/[*?[\]{}]/.test(value)) {
+        return [prefix + value];
+    }
+    const trimmed = value.replace(/\/+$/, "");
+    // The first glob matches files, the second everything below matching folders.
+    return [`${prefix}**/*${trimmed}*`, `${prefix}**/*${trimmed}*/**`];
+}
+
+const caseModes: { [value: string]: CaseMode } = {
+    "": CaseMode.Sensitive,
+    sensitive: CaseMode.Sensitive,
+    yes: CaseMode.Sensitive,
+    insensitive: CaseMode.Insensitive,
+    ignore: CaseMode.Insensitive,
+    no: CaseMode.Insensitive,
+    smart: CaseMode.Smart,
+};
+
+/**
+ * Parse a query as described at [[SearchQuery]], or give an error explaining what's wrong with it.
+ */
+export function parseQuery(value: string): Result<SearchQuery, Error> {
+    const query: SearchQuery = {
+        pattern: "",
+        caseMode: CaseMode.Smart,
+        wordRegexp: false,
+        fixedStrings: false,
+        globs: [],
+        types: [],
+        excludedTypes: [],
+        rawArgs: [],
+    };
+    const pattern: string[] = [];
+    const tokens = tokenize(value);
+    for (let i = 0; i < tokens.length; i++) {
+        const { text, quoted } = tokens[i];
+        if (!quoted && text === "--") {
+            query.rawArgs = tokens.slice(i + 1).map((token) => token.text);
+            break;
+        }
+        const filter = quoted ? null : /^(-?)(ext|path|type|case|word|regex|literal):(.*)$/.exec(text);
+        if (filter === null) {
+            pattern.push(text);
+            continue;
+        }
+        const [, minus, key, argument] = filter;
+        const exclude = minus === "-";
+        if (exclude && key !== "path" && key !== "type" && key !== "ext") {
+            return Err(new Error(`${key}: can't be negated.`));
+        }
+        switch (key) {
+            case "ext": {
+                const extensions = argument.split(",").filter((extension) => extension !== "");
+                if (extensions.length === 0) {
+                    return Err(new Error("ext: needs an extension, eg. ext:ts"));
+                }
+                const list = extensions.map((extension) => extension.replace(/^\./, ""));
+                const glob = list.length === 1 ? `*.${list[0]}` : `*.{${list.join(",")}}`;
+                query.globs.push(exclude ? `!${glob}` : glob);
+                break;
+            }
+            case "path":
+                if (argument === "") {
+                    return Err(new Error(`${minus}path: needs part of a path, eg. ${minus}path:src/`));
+                }
+                query.globs.push(...pathGlobs(argument, exclude));
+                break;
+            case "type":
+                if (!/^[\w-]+$/.test(argument)) {
+                    return Err(new Error(`${minus}type: needs one of rg's file types, eg. ${minus}type:rust`));
+                }
+                (exclude ? query.excludedTypes : query.types).push(argument);
+                break;
+            case "case":
+                if (!(argument.toLowerCase() in caseModes)) {
+                    return Err(new Error("case: can be case:sensitive, case:insensitive or case:smart."));
+                }
+                query.caseMode = caseModes[argument.toLowerCase()];
+                break;
+            case "word":
+                query.wordRegexp = true;
+                break;
+            case "regex":
+            case "literal":
+                query.fixedStrings = key === "literal";
+                if (argument !== "") {
+                    pattern.push(argument);
+                }
+                break;
+        }
+    }
+    query.pattern = pattern.join(" ");
+    return Ok(query);
+}
+
+/**
+ * The rg flags choosing which files to search, including the raw flags.
+ */
+export function queryFileArgs(query: SearchQuery): string[] {
+    const args: string[] = [];
+    query.globs.forEach((glob) => args.push("--glob", glob));
+    query.types.forEach((type) => args.push("--type", type));
+    query.excludedTypes.forEach((type) => args.push("--type-not", type));
+    return [...args, ...query.rawArgs];
+}
+
+/**
+ * The rg flags for everything in the query but the pattern itself.
+ */
+export function queryArgs(query: SearchQuery): string[] {
+    const args: string[] = [];
+    switch (query.caseMode) {
+        case CaseMode.Smart:
+            args.push("--smart-case");
+            break;
+        case CaseMode.Insensitive:
+            args.push("--ignore-case");
+            break;
+        case CaseMode.Sensitive:
+            args.push("--case-sensitive");
+            break;
+    }
+    if (query.wordRegexp) {
+        args.push("--word-regexp");
+    }
+    if (query.fixedStrings) {
+        args.push("--fixed-strings");
+    }
+    return [...args, ...queryFileArgs(query)];
+}
+
+/**
+ * Build a [[RegExp]] matching what rg looks for with this query, as far as JavaScript's regex
+ * syntax allows.
+ */
+export function queryRegExp(query: SearchQuery, flags: string = ""): Result<RegExp, Error> {
+    let source = query.fixedStrings ? query.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") : query.pattern;
+    if (query.wordRegexp) {
+        source = `\\b(?:${source})\\b`;
+    }
+    const ignoreCase =
+        query.caseMode === CaseMode.Insensitive ||
+        (query.caseMode === CaseMode.Smart && query.pattern === query.pattern.toLowerCase());
+    try {
+        return Ok(new RegExp(source, ignoreCase ? flags + "i" : flags));
+    } catch (error) {
+        return Err(error as Error);
+    }
+}
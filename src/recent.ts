@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import { FileType } from "vscode";
+
+import { Path } from "./path";
+import { config, ConfigItem } from "./extension";
+
+/**
+ * A recently opened file or visited folder, stored in `globalState` the same way pins are.
+ */
+export interface RecentItem {
+    fsPath: string;
+    type: FileType;
+}
+
+const recentKey = "file-browser.recent";
+const defaultLimit = 50;
+
+let lastUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * Change the recent list. Changes are made one after another, each starting from what the one
+ * before wrote, so none of them gets lost.
+ */
+function updateRecent(
+    context: vscode.ExtensionContext,
+    change: (recent: RecentItem[]) => RecentItem[]
+): Promise<void> {
+    const update = lastUpdate.then(() =>
+        context.globalState.update(recentKey, change(context.globalState.get(recentKey, [])))
+    );
+    lastUpdate = update.catch(() => undefined);
+    return update;
+}
+
+/**
+ * Move `path` to the top of the recent list, dropping the oldest entries past the limit set in
+ * `file-browser.recentLimit`.
+ */
+export function recordRecent(context: vscode.ExtensionContext, path: Path, type: FileType): Promise<void> {
+    const limit = config<number>(ConfigItem.RecentLimit) ?? defaultLimit;
+    return updateRecent(context, (recent) =>
+        [{ fsPath: path.fsPath, type }, ...recent.filter((entry) => entry.fsPath !== path.fsPath)].slice(
+            0,
+            Math.max(0, limit)
+        )
+    );
+}
+
+/**
+ * Drop an entry from the recent list, eg. because it no longer exists.
+ */
+export function removeRecent(context: vscode.ExtensionContext, fsPath: string): Promise<void> {
+    return updateRecent(context, (recent) => recent.filter((entry) => entry.fsPath !== fsPath));
+}
+
+/**
+ * Get the recent list, most recent first. Entries aren't checked, as that can be slow; check the
+ * ones about to be shown with [[pruneRecent]].
+ */
+export async function getRecent(context: vscode.ExtensionContext): Promise<RecentItem[]> {
+    await lastUpdate;
+    return context.globalState.get(recentKey, []);
+}
+
+export function recentLabel(entry: RecentItem): string {
+    if (entry.type === FileType.Directory) {
+        return `$(folder-opened) ${entry.fsPath}`;
+    }
+    return `$(file) ${entry.fsPath}`;
+}
+
+/**
+ * Check that `entries` still exist, all at once, and drop the ones which don't from the recent
+ * list. Returns the ones which do.
+ */
+export async function pruneRecent(context: vscode.ExtensionContext, entries: RecentItem[]): Promise<RecentItem[]> {
+    const exists = await Promise.all(
+        entries.map(async (entry) => (await new Path(vscode.Uri.file(entry.fsPath)).stat()).isOk())
+    );
+    const missing = entries.filter((_, index) => !exists[index]);
+    await Promise.all(missing.map((entry) => removeRecent(context, entry.fsPath)));
+    return entries.filter((_, index) => exists[index]);
+}
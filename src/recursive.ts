@@ -0,0 +1,69 @@
+import { FileType } from "vscode";
+
+import { Result } from "./rust";
+import { Path } from "./path";
+import { FileItem } from "./fileitem";
+import { listDirectory } from "./filter";
+
+const maxItems = 20000;
+const flushInterval = 100;
+
+/**
+ * Walks the folder tree below a path breadth first, handing over what it finds in batches so the
+ * file browser can show results while the walk is still going.
+ *
+ * Items are named by their path relative to the root. Folders which are hidden by the ignore
+ * settings or `file-browser.hideDotfiles` are listed, but not descended into.
+ */
+export class RecursiveListing {
+    private cancelled = false;
+
+    constructor(
+        private root: Path,
+        private onItems: (items: FileItem[]) => void,
+        private onDone: () => void
+    ) {}
+
+    cancel() {
+        this.cancelled = true;
+    }
+
+    async run() {
+        const queue: string[] = [""];
+        let count = 0;
+        let batch: FileItem[] = [];
+        let lastFlush = Date.now();
+        const flush = () => {
+            if (batch.length > 0) {
+                this.onItems(batch);
+                batch = [];
+            }
+            lastFlush = Date.now();
+        };
+        while (queue.length > 0 && count < maxItems) {
+            const folder = queue.shift()!;
+            const path = folder === "" ? this.root : this.root.append(folder);
+            const items = (await Result.try(listDirectory(path, false))).getOr([]);
+            if (this.cancelled) {
+                return;
+            }
+            for (const item of items.slice(0, maxItems - count)) {
+                const name = folder === "" ? item.name : `${folder}/${item.name}`;
+                const fileType = item.fileType ?? FileType.Unknown;
+                // Symlinked folders are skipped so we can't end up walking in circles.
+                if (fileType === FileType.Directory && item.alwaysShow) {
+                    queue.push(name);
+                }
+                item.name = name;
+                item.detail = name;
+                batch.push(item);
+                count++;
+            }
+            if (Date.now() - lastFlush > flushInterval) {
+                flush();
+            }
+        }
+        flush();
+        this.onDone();
+    }
+}
@@ -0,0 +1,141 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+/**
+ * A line found by a content search, with the character ranges of the matches on it.
+ */
+export interface ReplaceMatch {
+    file: string;
+    /**
+     * Zero based line number.
+     */
+    line: number;
+    text: string;
+    submatches: [number, number][];
+}
+
+interface Hit {
+    file: string;
+    range: vscode.Range;
+    original: string;
+    replacement: string;
+    preview: string;
+}
+
+/**
+ * Expand `$1`, `${1}`, `$name`, `${name}` and `$$` in a replacement string the way `rg --replace`
+ * does. Groups which didn't take part in the match expand to nothing.
+ */
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+    return template.replace(/\$(?:(\$)|\{(\w+)\}|(\w+))/g, (_, dollar, braced, bare) => {
+        if (dollar !== undefined) {
+            return "$";
+        }
+        const name: string = braced ?? bare;
+        const group = /^\d+$/.test(name) ? match[Number(name)] : match.groups?.[name];
+        return group ?? "";
+    });
+}
+
+/**
+ * Work out what each match turns into. `regexp` must be sticky, so it can be run at the exact
+ * position rg reported; matches it can't reproduce, because rg's regex syntax differs from
+ * JavaScript's, are left out.
+ */
+function findHits(regexp: RegExp, matches: ReplaceMatch[], replacement: string): [Hit[], number] {
+    const hits: Hit[] = [];
+    let skipped = 0;
+    for (const match of matches) {
+        for (const [start, end] of match.submatches) {
+            regexp.lastIndex = start;
+            const found = regexp.exec(match.text);
+            if (found === null || found.index !== start) {
+                skipped++;
+                continue;
+            }
+            const matchEnd = start + found[0].length;
+            const replaced = expandReplacement(replacement, found);
+            hits.push({
+                file: match.file,
+                range: new vscode.Range(match.line, start, match.line, Math.max(end, matchEnd)),
+                original: match.text.slice(start, Math.max(end, matchEnd)),
+                replacement: replaced,
+                preview: (match.text.slice(0, start) + replaced + match.text.slice(Math.max(end, matchEnd))).trim(),
+            });
+        }
+    }
+    return [hits, skipped];
+}
+
+type HitItem = vscode.QuickPickItem & { hit?: Hit };
+
+/**
+ * Ask for a replacement for the matches of `regexp`, preview every change line by line so the
+ * user can leave some out, and apply the rest as a single [[WorkspaceEdit]], which can be undone
+ * like any other edit.
+ */
+export async function replaceMatches(regexp: RegExp, matches: ReplaceMatch[], search: string) {
+    const replacement = await vscode.window.showInputBox({
+        title: `Replace "${search}"`,
+        prompt: "Enter the replacement. Use $1 or ${name} to insert capture groups, and $$ for a dollar sign.",
+    });
+    if (replacement === undefined) {
+        return;
+    }
+
+    const [hits, skipped] = findHits(regexp, matches, replacement);
+    if (hits.length === 0) {
+        vscode.window.showInformationMessage("There's nothing to replace.");
+        return;
+    }
+    const files = [...new Set(hits.map((hit) => hit.file))];
+    const items: HitItem[] = [];
+    for (const file of files) {
+        items.push({ label: path.basename(file), description: file, kind: vscode.QuickPickItemKind.Separator });
+        for (const hit of hits.filter((hit) => hit.file === file)) {
+            items.push({
+                label: `${hit.range.start.line + 1}: ${hit.preview}`,
+                description: `${hit.original} → ${hit.replacement}`,
+                picked: true,
+                hit,
+            });
+        }
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        matchOnDescription: true,
+        title: `Replace ${hits.length} matches in ${files.length} files`,
+        placeHolder: "Deselect the matches to leave as they are",
+    });
+    if (picked === undefined || picked.length === 0) {
+        return;
+    }
+
+    // The files may have changed since the search, so only replace what's still there.
+    const edit = new vscode.WorkspaceEdit();
+    let changed = 0;
+    let stale = skipped;
+    for (const file of files) {
+        const fileHits = picked.filter((item) => item.hit?.file === file).map((item) => item.hit!);
+        if (fileHits.length === 0) {
+            continue;
+        }
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+        for (const hit of fileHits) {
+            if (document.getText(hit.range) !== hit.original) {
+                stale++;
+                continue;
+            }
+            edit.replace(document.uri, hit.range, hit.replacement);
+            changed++;
+        }
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        vscode.window.showErrorMessage("Failed to apply the replacements.");
+        return;
+    }
+    const message = `Replaced ${changed} matches in ${edit.size} files.`;
+    vscode.window.showInformationMessage(
+        stale > 0 ? `${message} ${stale} matches were left alone because they couldn't be found again.` : message
+    );
+}
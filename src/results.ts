@@ -0,0 +1,121 @@
+import * as vscode from "vscode";
+import { Uri } from "vscode";
+import * as path from "path";
+
+export const resultsScheme = "file-browser-results";
+
+/**
+ * A search result as kept after the search browser is closed.
+ */
+export interface SearchResult {
+    file: string;
+    /**
+     * The range of the match, for content search results. File name results just open the file.
+     */
+    range?: vscode.Range;
+    text?: string;
+}
+
+const resultsUri = Uri.from({ scheme: resultsScheme, path: "Search Results" });
+const hasResultsContext = "file-browser.hasSearchResults";
+
+/**
+ * Keeps the last exported set of search results, shows them as a virtual document with a link for
+ * each one, and steps through them from the editor.
+ */
+export class SearchResults implements vscode.TextDocumentContentProvider, vscode.DocumentLinkProvider {
+    private changeEmitter = new vscode.EventEmitter<Uri>();
+    onDidChange = this.changeEmitter.event;
+
+    private results: SearchResult[] = [];
+    private title = "";
+    private current = -1;
+    /**
+     * The line of the document each result is shown on.
+     */
+    private lines: number[] = [];
+
+    async export(results: SearchResult[], title: string) {
+        this.results = results;
+        this.title = title;
+        this.current = -1;
+        vscode.commands.executeCommand("setContext", hasResultsContext, results.length > 0);
+        this.changeEmitter.fire(resultsUri);
+        const document = await vscode.workspace.openTextDocument(resultsUri);
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    provideTextDocumentContent(): string {
+        const lines = [`${this.results.length} results for ${this.title}`];
+        this.lines = [];
+        let file: string | undefined = undefined;
+        for (const result of this.results) {
+            if (result.range === undefined) {
+                this.lines.push(lines.length);
+                lines.push(result.file);
+                continue;
+            }
+            if (result.file !== file) {
+                file = result.file;
+                lines.push("", result.file);
+            }
+            this.lines.push(lines.length);
+            const position = `${result.range.start.line + 1}:${result.range.start.character + 1}`;
+            lines.push(`  ${position}  ${result.text?.trim() ?? ""}`);
+        }
+        return lines.join("\n");
+    }
+
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const links: vscode.DocumentLink[] = [];
+        this.results.forEach((result, index) => {
+            const lineNumber = this.lines[index];
+            if (lineNumber === undefined || lineNumber >= document.lineCount) {
+                return;
+            }
+            const line = document.lineAt(lineNumber);
+            const start = line.firstNonWhitespaceCharacterIndex;
+            const end = result.range === undefined ? line.text.length : line.text.indexOf(" ", start);
+            if (end <= start) {
+                return;
+            }
+            const link = new vscode.DocumentLink(new vscode.Range(lineNumber, start, lineNumber, end), resultUri(result));
+            link.tooltip = `Open ${path.basename(result.file)}`;
+            links.push(link);
+        });
+        return links;
+    }
+
+    next() {
+        this.step(1);
+    }
+
+    previous() {
+        this.step(-1);
+    }
+
+    private async step(delta: 1 | -1) {
+        if (this.results.length === 0) {
+            vscode.window.showInformationMessage("There are no exported search results.");
+            return;
+        }
+        this.current =
+            this.current === -1
+                ? (delta === 1 ? 0 : this.results.length - 1)
+                : (this.current + delta + this.results.length) % this.results.length;
+        const result = this.results[this.current];
+        vscode.window.setStatusBarMessage(`Search result ${this.current + 1} of ${this.results.length}`, 3000);
+        await vscode.window.showTextDocument(Uri.file(result.file), { selection: result.range });
+    }
+}
+
+/**
+ * Link to a result, with the position in the fragment the way VS Code expects it, eg. `#L12,5`.
+ */
+function resultUri(result: SearchResult): Uri {
+    const uri = Uri.file(result.file);
+    if (result.range === undefined) {
+        return uri;
+    }
+    return uri.with({ fragment: `L${result.range.start.line + 1},${result.range.start.character + 1}` });
+}
@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+import { FileType, Uri } from "vscode";
+import * as path from "path";
+
+import { Option, None, Some } from "./rust";
+import { expandPath, lookUpwards } from "./path";
+import { Pins } from "./pins";
+
+/**
+ * Where the search browser searches: any number of folders, and the files open in editors.
+ */
+export interface Scopes {
+    folders: string[];
+    openEditors: boolean;
+}
+
+/**
+ * The files open in editors, which is what the open editors scope searches.
+ */
+export function openEditorFiles(): string[] {
+    const files = vscode.window.tabGroups.all
+        .reduce((tabs: vscode.Tab[], group) => tabs.concat(group.tabs), [])
+        .map((tab) => tab.input)
+        .filter((input): input is vscode.TabInputText => input instanceof vscode.TabInputText)
+        .filter((input) => input.uri.scheme === "file")
+        .map((input) => input.uri.fsPath);
+    return [...new Set(files)];
+}
+
+/**
+ * Find the root of the git repository `dir` is in.
+ */
+export async function gitRoot(dir: string): Promise<Option<string>> {
+    const found = await lookUpwards(Uri.file(dir), [".git"], async (path) => (await path.stat()).isOk());
+    return found.match(
+        (uri) => Some(path.dirname(uri.fsPath)),
+        () => None
+    );
+}
+
+export function describeScopes(scopes: Scopes): string {
+    const names = scopes.folders.map((folder) => path.basename(folder) || folder);
+    if (scopes.openEditors) {
+        names.push("open editors");
+    }
+    if (names.length === 0) {
+        return "nothing";
+    }
+    return names.length > 3 ? `${names.slice(0, 3).join(", ")} and ${names.length - 3} more` : names.join(", ");
+}
+
+type ScopeItem = vscode.QuickPickItem & { folder?: string; openEditors?: boolean; custom?: boolean };
+
+/**
+ * Let the user choose what to search: the folder the search started in, its git repository,
+ * workspace folders, pinned folders, the open editors, and folders typed in by hand. Returns
+ * [[None]] if the user cancelled.
+ */
+export async function pickScopes(start: string, scopes: Scopes, pins: Pins): Promise<Option<Scopes>> {
+    const items: ScopeItem[] = [];
+    const seen = new Set<string>();
+    const addFolder = (label: string, folder: string) => {
+        if (seen.has(folder)) {
+            return;
+        }
+        seen.add(folder);
+        items.push({ label, description: folder, folder, picked: scopes.folders.includes(folder) });
+    };
+
+    addFolder("$(folder) Current folder", start);
+    (await gitRoot(start)).ifSome((root) => addFolder("$(git-branch) Git repository", root));
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        addFolder(`$(root-folder) ${folder.name}`, folder.uri.fsPath);
+    }
+    for (const pin of pins.all().filter((pin) => pin.type === FileType.Directory)) {
+        addFolder(`$(pinned) ${pin.alias ?? path.basename(pin.fsPath)}`, pin.fsPath);
+    }
+    for (const folder of scopes.folders) {
+        addFolder(`$(folder) ${path.basename(folder) || folder}`, folder);
+    }
+    items.push({ label: "$(files) Open editors", openEditors: true, picked: scopes.openEditors });
+    items.push({ label: "$(edit) Other folders...", custom: true });
+
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: "Search scopes",
+        placeHolder: "Choose where to search",
+    });
+    if (picked === undefined) {
+        return None;
+    }
+    const chosen: Scopes = {
+        folders: picked.filter((item) => item.folder !== undefined).map((item) => item.folder!),
+        openEditors: picked.some((item) => item.openEditors),
+    };
+    if (picked.some((item) => item.custom)) {
+        const typed = await vscode.window.showInputBox({
+            prompt: `Enter the folders to search, separated by "${path.delimiter}"`,
+        });
+        if (typed === undefined) {
+            return None;
+        }
+        for (const folder of typed.split(path.delimiter).map((folder) => folder.trim())) {
+            const resolved = path.resolve(start, expandPath(folder));
+            if (folder !== "" && !chosen.folders.includes(resolved)) {
+                chosen.folders.push(resolved);
+            }
+        }
+    }
+    return Some(chosen);
+}
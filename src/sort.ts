@@ -0,0 +1,115 @@
+import { FileType } from "vscode";
+import * as OSPath from "path";
+
+import { FileItem } from "./fileitem";
+
+export enum SortMode {
+    Name = "name",
+    Natural = "natural",
+    Extension = "extension",
+    Size = "size",
+    Modified = "modified",
+}
+
+export interface SortOrder {
+    mode: SortMode;
+    reversed: boolean;
+}
+
+const modes = [SortMode.Name, SortMode.Natural, SortMode.Extension, SortMode.Size, SortMode.Modified];
+const reversedSuffix = "-reversed";
+
+export const defaultSortOrder: SortOrder = { mode: SortMode.Name, reversed: false };
+
+/**
+ * Parse a sort order as written in the `file-browser.sortOrder` setting, eg. `size-reversed`.
+ * Anything unrecognised gives the default order.
+ */
+export function parseSortOrder(value: string): SortOrder {
+    const reversed = value.endsWith(reversedSuffix);
+    const mode = reversed ? value.slice(0, value.length - reversedSuffix.length) : value;
+    if (!modes.includes(mode as SortMode)) {
+        return defaultSortOrder;
+    }
+    return { mode: mode as SortMode, reversed };
+}
+
+export function formatSortOrder(order: SortOrder): string {
+    return order.reversed ? order.mode + reversedSuffix : order.mode;
+}
+
+/**
+ * The order after `order` when cycling through them: each mode, then the same mode reversed.
+ */
+export function nextSortOrder(order: SortOrder): SortOrder {
+    if (!order.reversed) {
+        return { mode: order.mode, reversed: true };
+    }
+    return { mode: modes[(modes.indexOf(order.mode) + 1) % modes.length], reversed: false };
+}
+
+export function describeSortOrder(order: SortOrder): string {
+    const descriptions = {
+        [SortMode.Name]: ["name", "name, Z to A"],
+        [SortMode.Natural]: ["natural name", "natural name, Z to A"],
+        [SortMode.Extension]: ["extension", "extension, Z to A"],
+        [SortMode.Size]: ["size, largest first", "size, smallest first"],
+        [SortMode.Modified]: ["modified, newest first", "modified, oldest first"],
+    };
+    return descriptions[order.mode][order.reversed ? 1 : 0];
+}
+
+/**
+ * Test whether sorting by `order` needs the items' stats to be loaded first.
+ */
+export function needsStats(order: SortOrder): boolean {
+    return order.mode === SortMode.Size || order.mode === SortMode.Modified;
+}
+
+function compareNames(left: FileItem, right: FileItem): number {
+    const [leftName, rightName] = [left.name.toLowerCase(), right.name.toLowerCase()];
+    return leftName > rightName ? 1 : leftName === rightName ? 0 : -1;
+}
+
+function compareBy(mode: SortMode): (left: FileItem, right: FileItem) => number {
+    switch (mode) {
+        case SortMode.Natural:
+            return (left, right) =>
+                left.name.localeCompare(right.name, undefined, { numeric: true, sensitivity: "base" });
+        case SortMode.Extension:
+            return (left, right) => {
+                const leftExtension = OSPath.extname(left.name).toLowerCase();
+                const rightExtension = OSPath.extname(right.name).toLowerCase();
+                if (leftExtension !== rightExtension) {
+                    return leftExtension > rightExtension ? 1 : -1;
+                }
+                return compareNames(left, right);
+            };
+        case SortMode.Size:
+            return (left, right) =>
+                (right.stat?.size ?? 0) - (left.stat?.size ?? 0) || compareNames(left, right);
+        case SortMode.Modified:
+            return (left, right) =>
+                (right.stat?.mtime ?? 0) - (left.stat?.mtime ?? 0) || compareNames(left, right);
+        default:
+            return compareNames;
+    }
+}
+
+function isDir(item: FileItem): boolean {
+    return ((item.fileType ?? 0) & FileType.Directory) === FileType.Directory;
+}
+
+/**
+ * Sort items in place by `order`. Folders always come before files, whichever way round the
+ * order is.
+ */
+export function sortItems(items: FileItem[], order: SortOrder): FileItem[] {
+    const compare = compareBy(order.mode);
+    return items.sort((left, right) => {
+        if (isDir(left) !== isDir(right)) {
+            return isDir(left) ? -1 : 1;
+        }
+        return order.reversed ? compare(right, left) : compare(left, right);
+    });
+}
@@ -0,0 +1,166 @@
+import * as vscode from "vscode";
+import { FileType, QuickInputButton, ThemeIcon } from "vscode";
+import * as OSPath from "path";
+
+import { Result, Ok, Err, None, Option, Some } from "./rust";
+import { Path, endsWithPathSeparator } from "./path";
+import { FileItem, fileRecordCompare } from "./fileitem";
+import { Journal } from "./journal";
+
+/**
+ * Show a browser style picker which only lists folders, starting at `start`.
+ *
+ * Accepting a folder steps into it; accepting the "Use this folder" item picks the folder
+ * currently being shown. Returns [[None]] if the picker was dismissed.
+ */
+export function pickFolder(start: Path, title: string): Promise<Option<Path>> {
+    return new Promise((resolve) => {
+        const picker = vscode.window.createQuickPick<FileItem>();
+        const stepOutButton: QuickInputButton = {
+            iconPath: new ThemeIcon("arrow-left"),
+            tooltip: "Step out of folder",
+        };
+        const selectItem: FileItem = {
+            label: "$(check) Use this folder",
+            name: "",
+            alwaysShow: true,
+        };
+        let path = start.clone();
+        let done = false;
+
+        const finish = (result: Option<Path>) => {
+            if (!done) {
+                done = true;
+                resolve(result);
+            }
+            picker.dispose();
+        };
+
+        const update = async () => {
+            picker.busy = true;
+            picker.title = `${title} ${path.fsPath}`;
+            picker.value = "";
+            const records = (await Result.try(vscode.workspace.fs.readDirectory(path.uri))).getOr([]);
+            records.sort(fileRecordCompare);
+            const folders = records
+                .filter(([, fileType]) => (fileType & FileType.Directory) === FileType.Directory)
+                .map((entry) => new FileItem(entry));
+            picker.items = [selectItem, ...folders];
+            picker.activeItems = [selectItem];
+            picker.busy = false;
+        };
+
+        const stepInto = (folder: Path) => {
+            path = folder;
+            update();
+        };
+
+        picker.ignoreFocusOut = true;
+        picker.placeholder = "Type a folder name, or a path ending in a separator to jump to it";
+        picker.buttons = [stepOutButton];
+        picker.onDidHide(() => finish(None));
+        picker.onDidTriggerButton((button) => {
+            if (button === stepOutButton && !path.atTop()) {
+                stepInto(path.parent());
+            }
+        });
+        picker.onDidChangeValue((value) => {
+            endsWithPathSeparator(value).ifSome((folder) => {
+                if (folder === "..") {
+                    stepInto(path.parent());
+                } else if (folder === "") {
+                    stepInto(Path.fromFilePath("/"));
+                } else if (/^([/~@$]|[A-Za-z]:)/.test(folder)) {
+                    stepInto(Path.fromFilePath(folder));
+                } else {
+                    stepInto(path.append(folder));
+                }
+            });
+        });
+        picker.onDidAccept(() => {
+            const item = picker.activeItems[0];
+            if (item === undefined || item === selectItem) {
+                finish(Some(path));
+            } else {
+                stepInto(path.append(item.name));
+            }
+        });
+        picker.show();
+        update();
+    });
+}
+
+enum Conflict {
+    Overwrite = "$(replace-all) Overwrite it",
+    Skip = "$(close) Skip",
+    KeepBoth = "$(files) Keep both, adding a number to the new name",
+}
+
+async function resolveConflict(name: string): Promise<Conflict | undefined> {
+    const result = await vscode.window.showQuickPick(
+        [Conflict.Overwrite, Conflict.Skip, Conflict.KeepBoth],
+        { title: `"${name}" already exists in the destination folder` }
+    );
+    return result as Conflict | undefined;
+}
+
+/**
+ * Find a name in `folder` which doesn't exist yet, by adding ` (1)`, ` (2)` etc to the base name.
+ */
+async function uniquePath(folder: Path, name: string): Promise<Path> {
+    const extension = OSPath.extname(name);
+    const base = name.slice(0, name.length - extension.length);
+    for (let counter = 1; ; counter++) {
+        const candidate = folder.append(`${base} (${counter})${extension}`);
+        if ((await candidate.stat()).isErr()) {
+            return candidate;
+        }
+    }
+}
+
+/**
+ * Copy or move `source` into `folder`, recursively if it's a folder.
+ *
+ * If something with the same name already exists in `folder`, the user is asked whether to
+ * overwrite it, skip it or keep both.
+ *
+ * The operation is recorded in `journal`, so it can be undone.
+ *
+ * Returns the path the file ended up at, or [[None]] if it was skipped.
+ */
+export async function transfer(
+    journal: Journal,
+    source: Path,
+    folder: Path,
+    move: boolean
+): Promise<Result<Option<Path>, Error>> {
+    const name = OSPath.posix.basename(source.uri.path);
+    if (folder.equals(source) || folder.id.startsWith(source.id + "/")) {
+        return Err(new Error(`Can't ${move ? "move" : "copy"} "${name}" into itself`));
+    }
+    let target = folder.append(name);
+    let overwrite = false;
+    if (target.equals(source)) {
+        if (move) {
+            return Ok(None);
+        }
+        target = await uniquePath(folder, name);
+    } else if ((await target.stat()).isOk()) {
+        switch (await resolveConflict(name)) {
+            case Conflict.Overwrite:
+                overwrite = true;
+                break;
+            case Conflict.KeepBoth:
+                target = await uniquePath(folder, name);
+                break;
+            default:
+                return Ok(None);
+        }
+    }
+    const result = await journal.run(`${move ? "Move" : "Copy"} "${name}"`, (tx) =>
+        move
+            ? tx.rename(source.uri, target.uri, overwrite)
+            : tx.copy(source.uri, target.uri, overwrite)
+    );
+    return result.map(() => Some(target));
+}